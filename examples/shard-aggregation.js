@@ -4,16 +4,13 @@
  * Example demonstrating shard aggregation
  * 
  * This example shows how to:
- * - Parse multiple sharded test results
- * - Check if runs are from the same execution
- * - Aggregate sharded runs into a single report
+ * - Parse a directory of sharded test results in one call
+ * - Group shards by execution and aggregate them into a single report
  * - Calculate combined statistics
  */
 
 import {
-  parsePlaywrightJson,
-  aggregateShardedRuns,
-  areRunsFromSameExecution,
+  parsePlaywrightReports,
   calculateStatistics
 } from 'playwright-results-parser';
 import { promises as fs } from 'fs';
@@ -22,72 +19,39 @@ import path from 'path';
 async function main() {
   console.log('🔄 Shard Aggregation Example\n');
 
-  // Find all shard result files
+  // Find, parse and group all shard result files
   const resultsDir = './test-results';
-  const shardFiles = [];
-  
+  let executions = [];
+  let errors = [];
+
   try {
-    const files = await fs.readdir(resultsDir);
-    for (const file of files) {
-      if (file.match(/shard-\d+\.json$/)) {
-        shardFiles.push(path.join(resultsDir, file));
-      }
-    }
+    ({ executions, errors } = await parsePlaywrightReports(`${resultsDir}/shard-*.json`));
   } catch (error) {
-    console.log('No shard files found, using example data...\n');
-    // Use example shard files if they exist
-    shardFiles.push('./shard-1.json', './shard-2.json', './shard-3.json');
-  }
-
-  if (shardFiles.length === 0) {
-    console.log('No shard files found. Please run sharded tests first.');
-    console.log('Example: npx playwright test --shard=1/3');
+    console.log(`Could not read ${resultsDir}: ${error.message}`);
     return;
   }
 
-  console.log(`Found ${shardFiles.length} shard files:`);
-  shardFiles.forEach(file => console.log(`  - ${file}`));
-  console.log('');
+  errors.forEach(({ file, error }) => {
+    console.log(`  ⚠️  Failed to parse ${file}: ${error.message}`);
+  });
 
-  // Parse all shard files
-  const shardRuns = [];
-  for (const file of shardFiles) {
-    try {
-      console.log(`Parsing ${path.basename(file)}...`);
-      const run = await parsePlaywrightJson(file);
-      shardRuns.push(run);
-      
-      // Display shard info
-      if (run.shards && run.shards.length > 0) {
-        const shard = run.shards[0];
-        console.log(`  Shard ${shard.current}/${shard.total}`);
-        console.log(`  Tests: ${run.tests.length}`);
-        console.log(`  Duration: ${(shard.duration / 1000).toFixed(2)}s`);
-      }
-    } catch (error) {
-      console.log(`  ⚠️  Failed to parse ${file}: ${error.message}`);
-    }
-  }
-  console.log('');
-
-  if (shardRuns.length === 0) {
-    console.log('No valid shard files could be parsed.');
+  if (executions.length === 0) {
+    console.log('No shard files found. Please run sharded tests first.');
+    console.log('Example: npx playwright test --shard=1/3');
     return;
   }
 
-  // Check if all shards are from the same execution
-  console.log('Validating shards...');
-  if (areRunsFromSameExecution(shardRuns)) {
-    console.log('✅ All shards are from the same test execution\n');
+  // Reports are grouped by execution, so several executions mean mixed results
+  if (executions.length > 1) {
+    console.log(`⚠️  Found ${executions.length} separate test executions, using the first\n`);
   } else {
-    console.log('⚠️  Warning: Shards appear to be from different executions');
-    console.log('   Results may not be accurate when combined\n');
+    console.log('✅ All shards are from the same test execution\n');
   }
 
-  // Aggregate sharded runs
-  console.log('Aggregating shards...');
-  const aggregatedRun = aggregateShardedRuns(shardRuns);
-  console.log('✅ Shards aggregated successfully\n');
+  const { files, run: aggregatedRun } = executions[0];
+  console.log(`Aggregated ${files.length} shard files:`);
+  files.forEach(file => console.log(`  - ${path.basename(file)}`));
+  console.log('');
 
   // Display aggregated results
   console.log('📊 Aggregated Test Results:');
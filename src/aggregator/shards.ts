@@ -2,7 +2,12 @@
  * Aggregates sharded test results
  */
 
-import type { NormalizedTestRun, ShardInfo, TestTotals } from "../types/index.js";
+import type {
+  NormalizedTestRun,
+  ProjectConfig,
+  ShardInfo,
+  TestTotals,
+} from "../types/index.js";
 
 /**
  * Aggregates multiple sharded test runs into a single unified run.
@@ -66,6 +71,20 @@ export function aggregateShardedRuns(runs: NormalizedTestRun[]): NormalizedTestR
     duration: allTests.reduce((sum, t) => sum + t.duration, 0),
   };
 
+  // Collect report-level errors from all shards
+  const errors = runs.flatMap((run) => run.errors ?? []);
+
+  // Collect parse warnings from all shards
+  const warnings = runs.flatMap((run) => run.warnings ?? []);
+
+  // Shards of an execution share their projects, so the first config of each is kept
+  const projectConfigs: Record<string, ProjectConfig> = {};
+  runs.forEach((run) => {
+    for (const [name, config] of Object.entries(run.projectConfigs ?? {})) {
+      projectConfigs[name] ??= config;
+    }
+  });
+
   // Merge metadata from all shards
   const metadata: Record<string, unknown> = {};
   runs.forEach((run) => {
@@ -83,7 +102,10 @@ export function aggregateShardedRuns(runs: NormalizedTestRun[]): NormalizedTestR
     shards: shards.length > 0 ? shards : undefined,
     totals,
     tests: allTests,
+    errors,
     metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    warnings,
+    projectConfigs,
   };
 }
 
@@ -2,7 +2,7 @@
  * Statistics calculation for test runs
  */
 
-import type { NormalizedTestRun, NormalizedTest } from "../types/index.js";
+import type { NormalizedTestRun, NormalizedTest, TestOutcome } from "../types/index.js";
 
 /**
  * Project-level statistics
@@ -28,6 +28,18 @@ export interface FileStatistics {
   duration: number;
 }
 
+/**
+ * Tag-level statistics
+ */
+export interface TagStatistics {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  duration: number;
+}
+
 /**
  * Test duration statistics
  */
@@ -40,6 +52,15 @@ export interface DurationStatistics {
   max: number;
 }
 
+/**
+ * Error occurrence statistics
+ */
+export interface ErrorStatistics {
+  total: number;
+  testsWithErrors: number;
+  byMessage: Record<string, number>;
+}
+
 /**
  * Complete test statistics
  */
@@ -50,8 +71,11 @@ export interface TestStatistics {
   skipped: number;
   flaky: number;
   duration: DurationStatistics;
+  byOutcome: Record<TestOutcome, number>;
+  errors: ErrorStatistics;
   byProject: Record<string, ProjectStatistics>;
   byFile: Record<string, FileStatistics>;
+  byTag: Record<string, TagStatistics>;
 }
 
 /**
@@ -66,10 +90,10 @@ function calculatePercentile(sortedValues: number[], percentile: number): number
 }
 
 /**
- * Calculate duration statistics from test array
+ * Calculate duration statistics from test durations
  */
-function calculateDurationStats(tests: NormalizedTest[]): DurationStatistics {
-  if (tests.length === 0) {
+function calculateDurationStats(durations: number[]): DurationStatistics {
+  if (durations.length === 0) {
     return {
       total: 0,
       average: 0,
@@ -80,15 +104,12 @@ function calculateDurationStats(tests: NormalizedTest[]): DurationStatistics {
     };
   }
 
-  // Extract durations and calculate total in single pass
+  // Calculate total, min and max in single pass
   let total = 0;
   let min = Infinity;
   let max = 0;
-  const durations: number[] = [];
 
-  for (const test of tests) {
-    const duration = test.duration || 0;
-    durations.push(duration);
+  for (const duration of durations) {
     total += duration;
     min = Math.min(min, duration);
     max = Math.max(max, duration);
@@ -102,7 +123,7 @@ function calculateDurationStats(tests: NormalizedTest[]): DurationStatistics {
 
   return {
     total,
-    average: total / tests.length,
+    average: total / durations.length,
     median: calculatePercentile(durations, 50),
     p95: calculatePercentile(durations, 95),
     min,
@@ -110,10 +131,42 @@ function calculateDurationStats(tests: NormalizedTest[]): DurationStatistics {
   };
 }
 
+/**
+ * Initialize zeroed outcome counts
+ */
+function initializeOutcomeCounts(): Record<TestOutcome, number> {
+  return {
+    passed: 0,
+    failed: 0,
+    timedOut: 0,
+    interrupted: 0,
+    skipped: 0,
+    flaky: 0,
+    expectedFailure: 0,
+    unexpectedPass: 0,
+  };
+}
+
+/**
+ * Update error statistics with the errors of a test, keyed by the first line of
+ * each message so that details such as call logs do not split identical errors
+ */
+function updateErrorStats(stats: ErrorStatistics, test: NormalizedTest): void {
+  const errors = test.errors ?? (test.error ? [test.error] : []);
+  if (errors.length === 0) return;
+
+  stats.testsWithErrors++;
+  for (const error of errors) {
+    const key = error.message.split("\n")[0]!.trim();
+    stats.total++;
+    stats.byMessage[key] = (stats.byMessage[key] ?? 0) + 1;
+  }
+}
+
 /**
  * Initialize empty statistics for a group
  */
-function initializeGroupStats(): ProjectStatistics | FileStatistics {
+function initializeGroupStats(): ProjectStatistics | FileStatistics | TagStatistics {
   return {
     total: 0,
     passed: 0,
@@ -128,7 +181,7 @@ function initializeGroupStats(): ProjectStatistics | FileStatistics {
  * Update group statistics with a test
  */
 function updateGroupStats(
-  stats: ProjectStatistics | FileStatistics,
+  stats: ProjectStatistics | FileStatistics | TagStatistics,
   test: NormalizedTest,
 ): void {
   stats.total++;
@@ -151,22 +204,10 @@ function updateGroupStats(
 }
 
 /**
- * Calculates comprehensive statistics for a test run.
- * Provides aggregate metrics including totals, duration statistics, and grouping by project/file.
- *
- * @param run - Normalized test run data from parsePlaywrightJson
- * @returns Complete statistics including counts, percentiles, and grouped metrics
- *
- * @example
- * ```typescript
- * const stats = calculateStatistics(testRun);
- * console.log(`Pass rate: ${(stats.passed / stats.total * 100).toFixed(2)}%`);
- * console.log(`P95 duration: ${stats.duration.p95}ms`);
- * console.log(`Flaky tests: ${stats.flaky}`);
- * ```
+ * Create zeroed statistics
  */
-export function calculateStatistics(run: NormalizedTestRun): TestStatistics {
-  const stats: TestStatistics = {
+function initializeStatistics(): TestStatistics {
+  return {
     total: 0,
     passed: 0,
     failed: 0,
@@ -180,52 +221,134 @@ export function calculateStatistics(run: NormalizedTestRun): TestStatistics {
       min: 0,
       max: 0,
     },
+    byOutcome: initializeOutcomeCounts(),
+    errors: {
+      total: 0,
+      testsWithErrors: 0,
+      byMessage: {},
+    },
     byProject: {},
     byFile: {},
+    byTag: {},
   };
+}
+
+/**
+ * Update statistics with a test, collecting its duration for percentile calculation
+ */
+function updateStatistics(
+  stats: TestStatistics,
+  durations: number[],
+  test: NormalizedTest,
+): void {
+  // Update totals
+  stats.total++;
+  durations.push(test.duration || 0);
 
-  // Handle empty test run
-  if (!run.tests || run.tests.length === 0) {
-    return stats;
+  switch (test.status) {
+    case "passed":
+      stats.passed++;
+      break;
+    case "failed":
+      stats.failed++;
+      break;
+    case "skipped":
+      stats.skipped++;
+      break;
+    case "flaky":
+      stats.flaky++;
+      break;
   }
 
-  // Single pass to calculate all statistics
-  for (const test of run.tests) {
-    // Update totals
-    stats.total++;
+  // Update outcome counts, falling back to status for tests without an outcome
+  stats.byOutcome[test.outcome ?? test.status]++;
 
-    switch (test.status) {
-      case "passed":
-        stats.passed++;
-        break;
-      case "failed":
-        stats.failed++;
-        break;
-      case "skipped":
-        stats.skipped++;
-        break;
-      case "flaky":
-        stats.flaky++;
-        break;
-    }
+  // Update error occurrence counts
+  updateErrorStats(stats.errors, test);
 
-    // Update project statistics
-    const project = test.project || "default";
-    if (!stats.byProject[project]) {
-      stats.byProject[project] = initializeGroupStats();
-    }
-    updateGroupStats(stats.byProject[project]!, test);
+  // Update project statistics
+  const project = test.project || "default";
+  if (!stats.byProject[project]) {
+    stats.byProject[project] = initializeGroupStats();
+  }
+  updateGroupStats(stats.byProject[project]!, test);
 
-    // Update file statistics
-    const file = test.file || "unknown";
-    if (!stats.byFile[file]) {
-      stats.byFile[file] = initializeGroupStats();
+  // Update file statistics
+  const file = test.file || "unknown";
+  if (!stats.byFile[file]) {
+    stats.byFile[file] = initializeGroupStats();
+  }
+  updateGroupStats(stats.byFile[file]!, test);
+
+  // Update tag statistics
+  for (const tag of test.tags ?? []) {
+    if (!stats.byTag[tag]) {
+      stats.byTag[tag] = initializeGroupStats();
     }
-    updateGroupStats(stats.byFile[file]!, test);
+    updateGroupStats(stats.byTag[tag]!, test);
+  }
+}
+
+/**
+ * Calculates comprehensive statistics for a test run.
+ * Provides aggregate metrics including totals, duration statistics, and grouping by project/file/tag.
+ * Tests carrying several tags are counted once under each of their tags.
+ *
+ * @param run - Normalized test run data from parsePlaywrightJson, or any iterable of tests
+ * @returns Complete statistics including counts, percentiles, and grouped metrics
+ *
+ * @example
+ * ```typescript
+ * const stats = calculateStatistics(testRun);
+ * console.log(`Pass rate: ${(stats.passed / stats.total * 100).toFixed(2)}%`);
+ * console.log(`P95 duration: ${stats.duration.p95}ms`);
+ * console.log(`Flaky tests: ${stats.flaky}`);
+ * console.log(`Timed out: ${stats.byOutcome.timedOut}`);
+ * console.log(`Errors: ${stats.errors.total} in ${stats.errors.testsWithErrors} tests`);
+ * ```
+ */
+export function calculateStatistics(
+  run: NormalizedTestRun | Iterable<NormalizedTest>,
+): TestStatistics {
+  const stats = initializeStatistics();
+  const durations: number[] = [];
+  const tests = Symbol.iterator in run ? run : (run.tests ?? []);
+
+  // Single pass to calculate all statistics
+  for (const test of tests) {
+    updateStatistics(stats, durations, test);
   }
 
   // Calculate duration statistics
-  stats.duration = calculateDurationStats(run.tests);
+  stats.duration = calculateDurationStats(durations);
+
+  return stats;
+}
+
+/**
+ * Calculates the same statistics as calculateStatistics over a stream of tests,
+ * without holding the tests in memory.
+ *
+ * @param tests - Tests from iterateTests, or any async or sync iterable of tests
+ * @returns Promise resolving to complete statistics once the stream has ended
+ *
+ * @example
+ * ```typescript
+ * const stats = await calculateStreamStatistics(iterateTests('./huge-results.json'));
+ * console.log(`Failed: ${stats.failed} of ${stats.total}`);
+ * ```
+ */
+export async function calculateStreamStatistics(
+  tests: AsyncIterable<NormalizedTest> | Iterable<NormalizedTest>,
+): Promise<TestStatistics> {
+  const stats = initializeStatistics();
+  const durations: number[] = [];
+
+  for await (const test of tests) {
+    updateStatistics(stats, durations, test);
+  }
+
+  stats.duration = calculateDurationStats(durations);
 
   return stats;
 }
@@ -0,0 +1,102 @@
+/**
+ * Rebuilds the suite hierarchy of a test run as a tree
+ */
+
+import type { NormalizedTest, NormalizedTestRun, TestTotals } from "../types/index.js";
+import { addToTotals, createTotals } from "../parser/normalizer.js";
+
+/**
+ * Describe block in a suite tree, with the totals of all tests below it
+ */
+export interface SuiteNode {
+  title: string;
+  /** Titles of the enclosing describe blocks and this one, outermost first */
+  suitePath: string[];
+  totals: TestTotals;
+  suites: SuiteNode[];
+  tests: NormalizedTest[];
+}
+
+/**
+ * Test file in a suite tree, with the totals of all its tests
+ */
+export interface FileNode {
+  file: string;
+  totals: TestTotals;
+  suites: SuiteNode[];
+  /** Tests outside any describe block */
+  tests: NormalizedTest[];
+}
+
+/**
+ * Tests of a run grouped by file and describe block
+ */
+export interface SuiteTree {
+  totals: TestTotals;
+  files: FileNode[];
+}
+
+/**
+ * Find the child suite with a title, adding it if missing
+ */
+function getSuite(
+  parent: FileNode | SuiteNode,
+  title: string,
+  suitePath: string[],
+): SuiteNode {
+  let suite = parent.suites.find((child) => child.title === title);
+  if (!suite) {
+    suite = { title, suitePath, totals: createTotals(), suites: [], tests: [] };
+    parent.suites.push(suite);
+  }
+  return suite;
+}
+
+/**
+ * Builds a file → describe block → test tree from the tests of a run, for rendering
+ * collapsible suites. Every node holds the totals of all tests below it. Files,
+ * suites and tests keep the order of the run, and tests of different projects are
+ * listed side by side in the same describe block.
+ *
+ * @param run - Normalized test run
+ * @returns Tree of files and describe blocks with rolled-up totals
+ *
+ * @example
+ * ```typescript
+ * const tree = buildSuiteTree(run);
+ * for (const file of tree.files) {
+ *   console.log(`${file.file}: ${file.totals.failed} failed`);
+ *   for (const suite of file.suites) {
+ *     console.log(`  ${suite.title}: ${suite.totals.passed}/${suite.totals.total}`);
+ *   }
+ * }
+ * ```
+ */
+export function buildSuiteTree(run: NormalizedTestRun): SuiteTree {
+  const tree: SuiteTree = { totals: createTotals(), files: [] };
+  const files = new Map<string, FileNode>();
+
+  for (const test of run.tests) {
+    let file = files.get(test.file);
+    if (!file) {
+      file = { file: test.file, totals: createTotals(), suites: [], tests: [] };
+      files.set(test.file, file);
+      tree.files.push(file);
+    }
+    addToTotals(tree.totals, test);
+    addToTotals(file.totals, test);
+
+    // The outermost suite is the file's own suite, titled with its path
+    const suitePath = test.suitePath ?? [];
+    const describes = suitePath[0] === test.file ? suitePath.slice(1) : suitePath;
+
+    let node: FileNode | SuiteNode = file;
+    describes.forEach((title, depth) => {
+      node = getSuite(node, title, describes.slice(0, depth + 1));
+      addToTotals(node.totals, test);
+    });
+    node.tests.push(test);
+  }
+
+  return tree;
+}
@@ -9,11 +9,34 @@ export const version = "0.1.0";
 export type {
   NormalizedTestRun,
   NormalizedTest,
+  NormalizedAttempt,
+  NormalizedStep,
+  AttemptStatus,
+  TestOutcome,
   TestTotals,
   TestError,
+  ColoredErrorText,
+  AssertionDetails,
+  StackFrame,
+  StackFrameKind,
   TestAttachment,
   TestAnnotation,
   ShardInfo,
+  NormalizeOptions,
+  ParseOptions,
+  ParseWarning,
+  ValidationDiagnostic,
+  ReportFormat,
+  StreamParseOptions,
+  ParseReportsOptions,
+  ParsedReports,
+  ReportExecution,
+  ReportFileError,
+  TestRunSummary,
+  ProjectConfig,
+  InventoryTest,
+  TestInventory,
+  InventoryOptions,
   PlaywrightJsonReport,
   PlaywrightSuite,
   PlaywrightTestCase,
@@ -24,15 +47,36 @@ export type {
 } from "./types/index.js";
 
 // Export parser functions
-export { parsePlaywrightJson } from "./parser/parser.js";
+export { parsePlaywrightJson, parseTestInventory } from "./parser/parser.js";
 export { parsePlaywrightJson as parsePlaywrightResults } from "./parser/parser.js"; // Alias for backward compatibility
-export { ValidationError, validatePlaywrightJson } from "./parser/validator.js";
+export {
+  streamPlaywrightJson,
+  iterateTests,
+  createTestStream,
+  createTestTransform,
+} from "./parser/stream.js";
+export { parseBlobReport } from "./parser/blob.js";
+export { parsePlaywrightReports } from "./parser/reports.js";
+export type { ReportStream } from "./parser/input.js";
+export {
+  ValidationError,
+  validatePlaywrightJson,
+  salvagePlaywrightJson,
+} from "./parser/validator.js";
 export { normalizeTestRun } from "./parser/normalizer.js";
+export { detectReportFormat, TESTED_PLAYWRIGHT_VERSION } from "./parser/compat.js";
 
 // Export aggregator functions
 export { aggregateShardedRuns, areRunsFromSameExecution } from "./aggregator/shards.js";
+export {
+  buildSuiteTree,
+  type SuiteTree,
+  type FileNode,
+  type SuiteNode,
+} from "./aggregator/suites.js";
 export {
   calculateStatistics,
+  calculateStreamStatistics,
   getFailedTests,
   getFlakyTests,
   getTestsByProject,
@@ -40,12 +84,15 @@ export {
   type TestStatistics,
   type ProjectStatistics,
   type FileStatistics,
+  type TagStatistics,
+  type ErrorStatistics,
   type DurationStatistics,
 } from "./aggregator/statistics.js";
 
 // Export filter utilities
 export {
   filterTests,
+  filterTestStream,
   filterPredicates,
   combinePredicates,
   combinePredicatesOr,
@@ -59,6 +106,30 @@ export {
   reverseSort,
 } from "./utils/sorters.js";
 
+// Export tag utilities
+export { normalizeTag, extractInlineTags } from "./utils/tags.js";
+
+// Export step utilities
+export {
+  flattenSteps,
+  findFailingStep,
+  getSlowestSteps,
+  type FlatStep,
+  type RunStep,
+} from "./utils/steps.js";
+
+// Export console output utilities
+export { getOutputLines, searchOutput, type OutputMatch } from "./utils/output.js";
+
+// Export stack trace utilities
+export { parseStackFrames } from "./utils/stack.js";
+
+// Export ANSI utilities
+export { stripAnsi, hasAnsi } from "./utils/ansi.js";
+
+// Export assertion utilities
+export { parseAssertionDetails } from "./utils/assertions.js";
+
 // Export helper utilities
 export {
   groupTests,
@@ -71,6 +142,7 @@ export {
   getTestSummary,
   allTestsPassed,
   hasFailures,
+  hasRunErrors,
   hasFlakyTests,
   type TestSummary,
 } from "./utils/helpers.js";
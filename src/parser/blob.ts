@@ -0,0 +1,440 @@
+/**
+ * Reader for Playwright blob reports, as written by the blob reporter for sharded runs
+ */
+
+import { promises as fs } from "fs";
+import type { NormalizedTestRun, ParseOptions } from "../types/index.js";
+import { validateReport, ValidationError } from "./validator.js";
+import { normalizeTestRun } from "./normalizer.js";
+import { listZipEntries, readZipEntry } from "./zip.js";
+import { deriveTestStatus } from "./compat.js";
+import { toFileError } from "./input.js";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Reporter event as stored in a blob report, one per line of its JSONL file
+ */
+interface BlobEvent {
+  method: string;
+  params?: JsonObject;
+}
+
+/**
+ * Test attempt being rebuilt from test, step and output events
+ */
+interface ResultState {
+  result: JsonObject;
+  steps: Map<string, JsonObject>;
+}
+
+/**
+ * State accumulated while replaying the events of a blob report
+ */
+interface ReplayState {
+  metadata: JsonObject;
+  config: JsonObject;
+  projects: JsonObject[];
+  results: Map<string, ResultState>;
+  resultsByTest: Map<string, JsonObject[]>;
+  testEnds: Map<string, JsonObject>;
+  errors: unknown[];
+  end?: JsonObject;
+}
+
+/**
+ * Convert an epoch timestamp (as stored in blob reports) to an ISO string
+ */
+function toIsoTime(time: unknown): string {
+  return typeof time === "number" || typeof time === "string" ?
+      new Date(time).toISOString()
+    : new Date(0).toISOString();
+}
+
+/**
+ * Convert a blob attachment to the JSON reporter's shape
+ */
+function toJsonAttachment(attachment: unknown): JsonObject {
+  const { name, contentType, path, body, base64 } = attachment as JsonObject;
+  return { name, contentType, path, body: body ?? base64 };
+}
+
+/**
+ * Key a test attempt by test and result ID
+ */
+function resultKey(params: JsonObject): string {
+  return `${params.testId as string}\x1e${params.resultId as string}`;
+}
+
+/**
+ * Apply a reporter event to the replay state
+ */
+function applyEvent(state: ReplayState, { method, params = {} }: BlobEvent): void {
+  switch (method) {
+    case "onBlobReportMetadata":
+      state.metadata = params;
+      break;
+    case "onConfigure":
+      state.config = (params.config as JsonObject) ?? {};
+      break;
+    case "onProject":
+      state.projects.push(params.project as JsonObject);
+      break;
+    case "onTestBegin": {
+      const start = (params.result as JsonObject) ?? {};
+      const testId = params.testId as string;
+      const result: JsonObject = {
+        workerIndex: start.workerIndex ?? -1,
+        parallelIndex: start.parallelIndex,
+        retry: start.retry ?? 0,
+        startTime: toIsoTime(start.startTime),
+        duration: 0,
+        errors: [],
+        stdout: [],
+        stderr: [],
+        attachments: [],
+        steps: [],
+      };
+      state.results.set(resultKey({ testId, resultId: start.id }), {
+        result,
+        steps: new Map(),
+      });
+      state.resultsByTest.set(testId, [
+        ...(state.resultsByTest.get(testId) ?? []),
+        result,
+      ]);
+      break;
+    }
+    case "onTestEnd": {
+      const test = (params.test as JsonObject) ?? {};
+      const end = (params.result as JsonObject) ?? {};
+      state.testEnds.set(test.testId as string, test);
+
+      const attempt = state.results.get(
+        resultKey({ testId: test.testId, resultId: end.id }),
+      );
+      if (!attempt) break;
+      const errors = (end.errors as unknown[]) ?? [];
+      Object.assign(attempt.result, {
+        status: end.status,
+        duration: end.duration ?? 0,
+        error: errors[0],
+        errors,
+        annotations: end.annotations,
+      });
+      (attempt.result.attachments as unknown[]).push(
+        ...((end.attachments as unknown[]) ?? []).map(toJsonAttachment),
+      );
+      break;
+    }
+    case "onStepBegin": {
+      const attempt = state.results.get(resultKey(params));
+      const step = (params.step as JsonObject) ?? {};
+      if (!attempt) break;
+
+      const normalized: JsonObject = {
+        title: step.title,
+        category: step.category,
+        duration: 0,
+        steps: [],
+      };
+      attempt.steps.set(step.id as string, normalized);
+      const parent =
+        typeof step.parentStepId === "string" ?
+          attempt.steps.get(step.parentStepId)
+        : undefined;
+      ((parent ?? attempt.result).steps as unknown[]).push(normalized);
+      break;
+    }
+    case "onStepEnd": {
+      const step = (params.step as JsonObject) ?? {};
+      const normalized = state.results
+        .get(resultKey(params))
+        ?.steps.get(step.id as string);
+      if (!normalized) break;
+      normalized.duration = step.duration ?? 0;
+      if (step.error) normalized.error = step.error;
+      break;
+    }
+    case "onAttach": {
+      const attempt = state.results.get(resultKey(params));
+      if (!attempt) break;
+      (attempt.result.attachments as unknown[]).push(
+        ...((params.attachments as unknown[]) ?? []).map(toJsonAttachment),
+      );
+      break;
+    }
+    case "onStdIO":
+    case "onStdOut":
+    case "onStdErr": {
+      const attempt = state.results.get(resultKey(params));
+      if (!attempt) break;
+      const stream =
+        method === "onStdErr" || params.type === "stderr" ? "stderr" : "stdout";
+      const chunk = params.isBase64 ? { buffer: params.data } : { text: params.data };
+      (attempt.result[stream] as unknown[]).push(chunk);
+      break;
+    }
+    case "onError":
+      state.errors.push(params.error);
+      break;
+    case "onEnd":
+      state.end = (params.result as JsonObject) ?? {};
+      break;
+  }
+}
+
+/**
+ * Keep only test.step steps, as the JSON reporter does
+ */
+function filterSteps(steps: unknown[]): JsonObject[] {
+  return (steps as JsonObject[])
+    .filter((step) => step.category === "test.step")
+    .map(({ category: _category, ...step }) => ({
+      ...step,
+      steps: filterSteps(step.steps as unknown[]),
+    }));
+}
+
+/**
+ * Find or create the JSON reporter suite matching a blob suite.
+ * Suites of the same file from different projects are merged, as in the JSON reporter.
+ */
+function mergeSuite(target: JsonObject[], suite: JsonObject): JsonObject {
+  const location = (suite.location as JsonObject) ?? {};
+  const existing = target.find(
+    (candidate) =>
+      candidate.title === suite.title &&
+      candidate.file === location.file &&
+      candidate.line === location.line &&
+      candidate.column === location.column,
+  );
+  if (existing) return existing;
+
+  const created: JsonObject = {
+    title: suite.title,
+    file: location.file,
+    line: location.line,
+    column: location.column,
+    specs: [],
+    suites: [],
+  };
+  target.push(created);
+  return created;
+}
+
+/**
+ * Add the tests of a blob suite, and of its nested suites, to a JSON reporter suite
+ */
+function addSuiteEntries(
+  state: ReplayState,
+  target: JsonObject,
+  suite: JsonObject,
+  project: JsonObject,
+): void {
+  // Newer blob reports list suites and tests in declaration order as `entries`
+  const entries = (suite.entries as JsonObject[]) ?? [
+    ...((suite.suites as JsonObject[]) ?? []),
+    ...((suite.tests as JsonObject[]) ?? []),
+  ];
+
+  for (const entry of entries) {
+    if (!("testId" in entry)) {
+      const child = mergeSuite(target.suites as JsonObject[], entry);
+      addSuiteEntries(state, child, entry, project);
+      continue;
+    }
+
+    const location = (entry.location as JsonObject) ?? {};
+    const specs = target.specs as JsonObject[];
+    let spec = specs.find(
+      (candidate) =>
+        candidate.title === entry.title &&
+        candidate.file === location.file &&
+        candidate.line === location.line &&
+        candidate.column === location.column,
+    );
+    if (!spec) {
+      spec = {
+        title: entry.title,
+        ok: true,
+        tags: entry.tags ?? [],
+        tests: [],
+        id: entry.testId,
+        file: location.file,
+        line: location.line,
+        column: location.column,
+      };
+      specs.push(spec);
+    }
+
+    const testEnd = state.testEnds.get(entry.testId as string);
+    const results = (state.resultsByTest.get(entry.testId as string) ?? []).map(
+      (result) => ({ ...result, steps: filterSteps(result.steps as unknown[]) }),
+    );
+    const expectedStatus = (testEnd?.expectedStatus as string) ?? "passed";
+    const status = deriveTestStatus(results, expectedStatus);
+
+    (spec.tests as unknown[]).push({
+      timeout: testEnd?.timeout ?? project.timeout ?? 0,
+      annotations: testEnd?.annotations ?? entry.annotations ?? [],
+      expectedStatus,
+      projectId: project.id ?? project.name,
+      projectName: project.name,
+      results,
+      status,
+    });
+    spec.ok = spec.ok === true && status !== "unexpected";
+  }
+}
+
+/**
+ * Rebuild a JSON reporter report from the events of a blob report
+ */
+function replayBlobEvents(events: BlobEvent[]): unknown {
+  const state: ReplayState = {
+    metadata: {},
+    config: {},
+    projects: [],
+    results: new Map(),
+    resultsByTest: new Map(),
+    testEnds: new Map(),
+    errors: [],
+  };
+  events.forEach((event) => applyEvent(state, event));
+
+  // Top-level suites are file suites, merged across projects
+  const suites: JsonObject[] = [];
+  for (const project of state.projects) {
+    for (const fileSuite of (project.suites as JsonObject[]) ?? []) {
+      addSuiteEntries(state, mergeSuite(suites, fileSuite), fileSuite, project);
+    }
+  }
+
+  const counts = { expected: 0, unexpected: 0, flaky: 0, skipped: 0 };
+  const countStatuses = (suite: JsonObject): void => {
+    for (const spec of suite.specs as JsonObject[]) {
+      for (const test of spec.tests as JsonObject[]) {
+        if ((test.results as unknown[]).length === 0) continue;
+        counts[test.status as keyof typeof counts]++;
+      }
+    }
+    (suite.suites as JsonObject[]).forEach(countStatuses);
+  };
+  suites.forEach(countStatuses);
+
+  return {
+    config: {
+      ...state.config,
+      projects: state.projects.map((project) => ({
+        id: project.id ?? project.name,
+        name: project.name,
+        testDir: project.testDir,
+        timeout: project.timeout,
+        metadata: project.metadata,
+        outputDir: project.outputDir,
+        repeatEach: project.repeatEach,
+        retries: project.retries,
+        dependencies: project.dependencies,
+        teardown: project.teardown,
+        use: project.use,
+      })),
+      shard: state.metadata.shard ?? null,
+    },
+    suites,
+    errors: state.errors,
+    stats:
+      state.end ?
+        {
+          startTime: toIsoTime(state.end.startTime),
+          duration: state.end.duration ?? 0,
+          ...counts,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Parse the JSONL event file of a blob report
+ */
+function parseEventLines(content: string, name: string): BlobEvent[] {
+  return content
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as BlobEvent;
+      } catch (error) {
+        throw new ValidationError(
+          `Invalid JSON in blob report ${name} at line ${index + 1}: ${(error as Error).message}`,
+        );
+      }
+    });
+}
+
+/**
+ * Parses a Playwright blob report (`report-*.zip`) into a normalized structure,
+ * replaying its reporter events instead of running `playwright merge-reports`.
+ * Shard information is taken from the blob metadata; combine the runs of all
+ * shards with aggregateShardedRuns. Attachment paths point into the archive.
+ *
+ * @param input - File path to the blob report ZIP, or a Buffer containing it
+ * @param options - Normalization options, e.g. a caller-provided or deterministic runId,
+ * lenient validation, and a signal to cancel the parse
+ * @returns Promise resolving to normalized test run data
+ *
+ * @example
+ * ```typescript
+ * const shards = await Promise.all(
+ *   ['./blob-report/report-1.zip', './blob-report/report-2.zip'].map((file) =>
+ *     parseBlobReport(file),
+ *   ),
+ * );
+ * const run = aggregateShardedRuns(shards);
+ * console.log(`Total tests across shards: ${run.totals.total}`);
+ * ```
+ *
+ * @throws {Error} If the file does not exist
+ * @throws {ValidationError} If the archive or its events are not a valid blob report
+ * @throws The signal's reason, typically an `AbortError`, if the parse is cancelled
+ */
+export async function parseBlobReport(
+  input: string | Buffer,
+  options: ParseOptions = {},
+): Promise<NormalizedTestRun> {
+  const { signal, mode = "strict", ...normalizeOptions } = options;
+  signal?.throwIfAborted();
+  let archive: Buffer;
+  if (typeof input === "string") {
+    try {
+      archive = await fs.readFile(input, { signal });
+    } catch (error) {
+      throw toFileError(error, input);
+    }
+  } else if (Buffer.isBuffer(input)) {
+    archive = input;
+  } else {
+    throw new Error("Input must be a file path string or Buffer");
+  }
+
+  // Unzipping, replaying and normalization run synchronously, so this is the last
+  // chance to stop
+  signal?.throwIfAborted();
+
+  const entry = listZipEntries(archive).find((candidate) =>
+    candidate.name.endsWith(".jsonl"),
+  );
+  if (!entry) {
+    throw new ValidationError("Invalid blob report: no .jsonl event file found");
+  }
+
+  const events = parseEventLines(
+    readZipEntry(archive, entry).toString("utf-8"),
+    entry.name,
+  );
+  // In lenient mode, keep the valid parts of the report, listing what was skipped
+  const { report, warnings } = validateReport(replayBlobEvents(events), mode);
+  const run = normalizeTestRun(report, normalizeOptions);
+  return { ...run, warnings: [...warnings, ...(run.warnings ?? [])] };
+}
@@ -0,0 +1,365 @@
+/**
+ * Playwright version detection and adapters that upgrade older report layouts
+ * to the current one before validation
+ */
+
+import type { ParseWarning, ReportFormat } from "../types/index.js";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Newest Playwright minor release the parser has been verified against
+ */
+export const TESTED_PLAYWRIGHT_VERSION = "1.54";
+
+/**
+ * Upgrade of one older report layout. Each step returns its input unchanged when
+ * there is nothing to upgrade, so adapters can run on any report.
+ */
+interface ReportAdapter {
+  /** Name listed in ReportFormat.adapters when the adapter changed the report */
+  name: string;
+  upgradeSuite?: (suite: JsonObject) => JsonObject;
+  upgradeTest?: (test: JsonObject) => JsonObject;
+  upgradeResult?: (result: JsonObject) => JsonObject;
+}
+
+/**
+ * Check for a plain JSON object
+ */
+function isRecord(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy an object without its undefined fields
+ */
+function compact(object: JsonObject): JsonObject {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined),
+  );
+}
+
+/**
+ * Determines the status of a test from its attempts, the same way as Playwright's
+ * TestCase.outcome(): interrupted attempts are ignored, and a test is flaky when
+ * only some of its attempts had an unexpected status.
+ *
+ * @param results - Attempts of the test
+ * @param expectedStatus - Expected status of the test, `failed` for test.fail()
+ * @returns JSON reporter test status
+ */
+export function deriveTestStatus(
+  results: JsonObject[],
+  expectedStatus: unknown,
+): "expected" | "unexpected" | "flaky" | "skipped" {
+  const ran = results.filter((result) => result.status !== "interrupted");
+  if (ran.every((result) => result.status === "skipped")) return "skipped";
+
+  const failures = ran.filter((result) => result.status !== expectedStatus);
+  if (failures.length === 0) return "expected";
+  if (failures.length === ran.length) return "unexpected";
+  return "flaky";
+}
+
+/**
+ * Convert a test listed directly on a suite (older layout), which holds its title
+ * and location next to its per-project runs, into a spec
+ */
+export function legacyTestToSpec(test: JsonObject): JsonObject {
+  const location = isRecord(test.location) ? test.location : {};
+  const tests = Array.isArray(test.tests) ? test.tests : [];
+
+  return compact({
+    title: test.title,
+    ok: tests.every((run) => !isRecord(run) || run.status !== "unexpected"),
+    tags: test.tags,
+    tests,
+    id: test.id,
+    file: location.file,
+    line: location.line,
+    column: location.column,
+    // Older reports record the configured retries rather than the attempts made
+    retries: typeof test.retries === "number" ? test.retries : 0,
+  });
+}
+
+/**
+ * Adapters in the order they are applied
+ */
+const ADAPTERS: ReportAdapter[] = [
+  {
+    // Tests listed on suites with their location, instead of in specs
+    name: "suite-tests",
+    upgradeSuite: (suite): JsonObject => {
+      if (!Array.isArray(suite.tests)) return suite;
+      const { tests, ...rest } = suite;
+      const specs = Array.isArray(suite.specs) ? suite.specs : [];
+      return {
+        ...rest,
+        specs: [
+          ...specs,
+          ...tests.map((test: unknown) =>
+            isRecord(test) ? legacyTestToSpec(test) : test,
+          ),
+        ],
+      };
+    },
+  },
+  {
+    // Tests without an overall status, which only their attempts imply
+    name: "test-status",
+    upgradeTest: (test): JsonObject => {
+      if (test.status !== undefined || !Array.isArray(test.results)) return test;
+      const results = test.results.filter(isRecord);
+      return {
+        ...test,
+        status: deriveTestStatus(results, test.expectedStatus ?? "passed"),
+      };
+    },
+  },
+  {
+    // Attempts with a single error instead of a list of errors
+    name: "result-errors",
+    upgradeResult: (result): JsonObject => {
+      if (result.error === undefined || result.errors !== undefined) return result;
+      return { ...result, errors: [result.error] };
+    },
+  },
+];
+
+/**
+ * Apply a step of every adapter that has it, recording the adapters that changed
+ * the value
+ */
+function applyAdapters(
+  value: JsonObject,
+  step: "upgradeSuite" | "upgradeTest" | "upgradeResult",
+  applied: Set<string>,
+): JsonObject {
+  return ADAPTERS.reduce((current, adapter) => {
+    const upgrade = adapter[step];
+    if (!upgrade) return current;
+    const next = upgrade(current);
+    if (next !== current) applied.add(adapter.name);
+    return next;
+  }, value);
+}
+
+/**
+ * Map the objects of an array, returning the array itself when nothing changed
+ */
+function mapObjects(
+  value: unknown,
+  upgrade: (item: JsonObject) => JsonObject,
+): unknown {
+  if (!Array.isArray(value)) return value;
+  let changed = false;
+  const items = value.map((item: unknown) => {
+    if (!isRecord(item)) return item;
+    const next = upgrade(item);
+    changed ||= next !== item;
+    return next;
+  });
+  return changed ? items : value;
+}
+
+/**
+ * Replace the fields of an object that changed, returning the object itself when
+ * none did
+ */
+function withFields(object: JsonObject, fields: JsonObject): JsonObject {
+  const changed = Object.entries(fields).some(([key, value]) => object[key] !== value);
+  return changed ? { ...object, ...fields } : object;
+}
+
+/**
+ * Upgrade a test and its attempts
+ */
+function upgradeTest(test: JsonObject, applied: Set<string>): JsonObject {
+  const upgraded = applyAdapters(test, "upgradeTest", applied);
+  return withFields(upgraded, {
+    results: mapObjects(upgraded.results, (result) =>
+      applyAdapters(result, "upgradeResult", applied),
+    ),
+  });
+}
+
+/**
+ * Upgrades a spec to the current layout, including its tests and their attempts.
+ *
+ * @param spec - Spec from the report, or a test listed on a suite (older layout)
+ * @param legacy - Whether the value is a test listed on a suite
+ * @param applied - Collects the names of the adapters that changed the spec
+ * @returns Spec in the current layout
+ */
+export function upgradeSpec(
+  spec: JsonObject,
+  legacy: boolean = false,
+  applied: Set<string> = new Set(),
+): JsonObject {
+  if (legacy) applied.add("suite-tests");
+  const current = legacy ? legacyTestToSpec(spec) : spec;
+  return withFields(current, {
+    tests: mapObjects(current.tests, (test) => upgradeTest(test, applied)),
+  });
+}
+
+/**
+ * Upgrade a suite, its nested suites and their specs
+ */
+function upgradeSuite(suite: JsonObject, applied: Set<string>): JsonObject {
+  const upgraded = applyAdapters(suite, "upgradeSuite", applied);
+  return withFields(upgraded, {
+    suites: mapObjects(upgraded.suites, (child) => upgradeSuite(child, applied)),
+    specs: mapObjects(upgraded.specs, (spec) => upgradeSpec(spec, false, applied)),
+  });
+}
+
+/**
+ * Upgrades a report written by any supported Playwright version to the current
+ * layout. Parts of the report that are already current are returned as is, and
+ * values that are not objects are left for validation to report.
+ *
+ * @param data - Parsed JSON report
+ * @returns Upgraded report, and the version and adapters that were detected
+ */
+export function upgradeReport(data: unknown): {
+  report: unknown;
+  format: ReportFormat;
+} {
+  const applied = new Set<string>();
+  const config = isRecord(data) && isRecord(data.config) ? data.config : {};
+  const version = typeof config.version === "string" ? config.version : undefined;
+
+  const report =
+    isRecord(data) ?
+      withFields(data, {
+        suites: mapObjects(data.suites, (suite) => upgradeSuite(suite, applied)),
+      })
+    : data;
+
+  return { report, format: { version, adapters: [...applied] } };
+}
+
+/**
+ * Kind of value a path into a report starts at
+ */
+export type LayoutNode = "report" | "suite" | "spec" | "suite-test" | "test" | "result";
+
+/**
+ * Maps a path into an upgraded report, e.g. of a validation issue, back to the same
+ * value in the report as it was written, so that errors point at the user's file.
+ * Specs converted from tests listed on a suite follow the suite's own specs.
+ *
+ * @param original - Report, or part of it, before it was upgraded
+ * @param path - Path into the upgraded value
+ * @param node - Kind of value `original` is
+ * @returns Path into the original value
+ */
+export function toOriginalPath(
+  original: unknown,
+  path: readonly PropertyKey[],
+  node: LayoutNode = "report",
+): PropertyKey[] {
+  const [key, index, ...rest] = path;
+  if (key === undefined) return [];
+  const value = isRecord(original) ? original : {};
+
+  // Follow an array item into the value of the given kind
+  const item = (field: string, at: unknown, next: LayoutNode): PropertyKey[] => {
+    if (typeof at !== "number") return [field, ...path.slice(1)];
+    const items = Array.isArray(value[field]) ? value[field] : [];
+    return [field, at, ...toOriginalPath(items[at], rest, next)];
+  };
+
+  switch (node) {
+    case "report":
+      return key === "suites" ? item("suites", index, "suite") : [...path];
+    case "suite": {
+      if (key === "suites") return item("suites", index, "suite");
+      if (key !== "specs") return [...path];
+      const specCount = Array.isArray(value.specs) ? value.specs.length : 0;
+      if (typeof index === "number" && index >= specCount) {
+        return item("tests", index - specCount, "suite-test");
+      }
+      return item("specs", index, "spec");
+    }
+    case "spec":
+      return key === "tests" ? item("tests", index, "test") : [...path];
+    case "suite-test":
+      if (key === "tests") return item("tests", index, "test");
+      if (key === "file" || key === "line" || key === "column") {
+        return ["location", ...path];
+      }
+      return [...path];
+    case "test":
+      return key === "results" ? item("results", index, "result") : [...path];
+    case "result":
+      // A single error was upgraded to the first item of a list
+      if (
+        key === "errors" &&
+        index === 0 &&
+        value.errors === undefined &&
+        value.error !== undefined
+      ) {
+        return ["error", ...rest];
+      }
+      return [...path];
+  }
+}
+
+/**
+ * Detects the Playwright version that wrote a report and the adapters needed to
+ * read it. Reports without a recorded version are recognized by their layout.
+ *
+ * @param data - Parsed JSON report
+ * @returns Playwright version, if recorded, and names of the adapters that apply
+ *
+ * @example
+ * ```typescript
+ * const format = detectReportFormat(JSON.parse(json));
+ * console.log(`Playwright ${format.version ?? 'unknown'}, adapters: ${format.adapters}`);
+ * ```
+ */
+export function detectReportFormat(data: unknown): ReportFormat {
+  return upgradeReport(data).format;
+}
+
+/**
+ * Parse the major and minor version of a Playwright version string
+ */
+function parseVersion(version: string): [number, number] | undefined {
+  const match = /^(\d+)\.(\d+)(?:\.\d+)?(?:[-+].*)?$/.exec(version);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+}
+
+/**
+ * Warn about reports from Playwright versions the parser has not been verified
+ * against, whose layout may have changed in ways validation does not catch
+ */
+export function checkCompatibility(version: string | undefined): ParseWarning[] {
+  if (version === undefined) return [];
+
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return [
+      {
+        path: "$.config.version",
+        message: `Unrecognized Playwright version "${version}"`,
+      },
+    ];
+  }
+
+  const [major, minor] = parsed;
+  const [testedMajor, testedMinor] = parseVersion(TESTED_PLAYWRIGHT_VERSION)!;
+  if (major > testedMajor || (major === testedMajor && minor > testedMinor)) {
+    return [
+      {
+        path: "$.config.version",
+        message: `Report written by Playwright ${version}, newer than the newest tested version ${TESTED_PLAYWRIGHT_VERSION}`,
+      },
+    ];
+  }
+  return [];
+}
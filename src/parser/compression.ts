@@ -0,0 +1,151 @@
+/**
+ * Transparent decompression of gzip and brotli compressed reports
+ */
+
+import { pipeline, Readable } from "stream";
+import { promisify } from "util";
+import { brotliDecompress, createBrotliDecompress, createGunzip, gunzip } from "zlib";
+import { ValidationError } from "./validator.js";
+
+/**
+ * Compression formats recognized in report inputs
+ */
+export type Compression = "gzip" | "brotli";
+
+const gunzipAsync = promisify(gunzip);
+const brotliDecompressAsync = promisify(brotliDecompress);
+
+/**
+ * Check for the gzip magic bytes
+ */
+function isGzip(head: Buffer): boolean {
+  return head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b;
+}
+
+/**
+ * Check whether data starts like a JSON document: an object or array after an
+ * optional BOM and whitespace, followed by text without control characters
+ */
+function looksLikeJson(data: Buffer): boolean {
+  const isWhitespace = (byte: number): boolean =>
+    byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d;
+
+  let offset = data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf ? 3 : 0;
+  while (offset < data.length && isWhitespace(data[offset]!)) offset++;
+  if (offset === data.length) return true;
+  if (data[offset] !== 0x7b && data[offset] !== 0x5b) return false;
+
+  const head = data.subarray(offset, offset + 64);
+  return head.every((byte) => byte >= 0x20 || isWhitespace(byte));
+}
+
+/**
+ * Detects the compression of a report from its file name or leading bytes.
+ * Brotli has no magic bytes, so besides files with the `.br` extension, data that is
+ * neither gzip nor starts like JSON is taken as brotli.
+ *
+ * @param head - Leading bytes of the report
+ * @param name - File name of the report, if known
+ * @returns Compression format, or undefined for uncompressed input
+ */
+export function detectCompression(
+  head: Buffer,
+  name?: string,
+): Compression | undefined {
+  if (name?.endsWith(".br")) return "brotli";
+  if (name?.endsWith(".gz") || isGzip(head)) return "gzip";
+  return looksLikeJson(head) ? undefined : "brotli";
+}
+
+/**
+ * Report a decompression failure like corrupt JSON, as a ValidationError. Data only
+ * taken as brotli for not looking like JSON is reported as neither.
+ */
+function decompressionError(
+  label: string,
+  error: unknown,
+  compression: Compression,
+  name?: string,
+): ValidationError {
+  const reason =
+    compression === "brotli" && !name?.endsWith(".br") ?
+      "not JSON, gzip or brotli data"
+    : (error as Error).message;
+  return new ValidationError(`Invalid JSON in ${label}: ${reason}`);
+}
+
+/**
+ * Decompresses a report held in memory if it is compressed, detected with
+ * `detectCompression` like streamed reports.
+ *
+ * @param data - Report contents
+ * @param label - Description of the input for error messages, e.g. `file results.json.gz`
+ * @param name - File name of the report, if known
+ * @returns Decompressed report contents
+ * @throws {ValidationError} If data recognized as compressed cannot be decompressed
+ */
+export async function decompressBuffer(
+  data: Buffer,
+  label: string,
+  name?: string,
+): Promise<Buffer> {
+  const compression = detectCompression(data, name);
+  if (!compression) return data;
+
+  try {
+    return compression === "gzip" ?
+        await gunzipAsync(data)
+      : await brotliDecompressAsync(data);
+  } catch (error) {
+    throw decompressionError(label, error, compression, name);
+  }
+}
+
+/**
+ * Decompresses a report stream if it is compressed, detected with `detectCompression`
+ * from its file name and first chunk.
+ *
+ * @param source - Chunks of the report
+ * @param label - Description of the input for error messages, e.g. `stream`
+ * @param name - File name of the report, if known
+ * @returns Decompressed chunks
+ * @throws {ValidationError} If the stream is recognized as compressed but cannot be decompressed
+ */
+export async function* decompressStream(
+  source: AsyncIterable<string | Buffer>,
+  label: string,
+  name?: string,
+): AsyncGenerator<string | Buffer, void, undefined> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+
+  const head = typeof first.value === "string" ? Buffer.from(first.value) : first.value;
+  const compression = detectCompression(head, name);
+  let sourceError: { error: unknown } | undefined;
+  const chunks = async function* (): AsyncGenerator<string | Buffer, void, undefined> {
+    try {
+      yield first.value;
+      yield* { [Symbol.asyncIterator]: (): AsyncIterator<string | Buffer> => iterator };
+    } catch (error) {
+      sourceError = { error };
+      throw error;
+    }
+  };
+
+  if (!compression) {
+    yield* chunks();
+    return;
+  }
+
+  // pipeline() tears down the source when decompression fails or iteration stops
+  const decompressor =
+    compression === "gzip" ? createGunzip() : createBrotliDecompress();
+  try {
+    yield* pipeline(Readable.from(chunks()), decompressor, () => {});
+  } catch (error) {
+    // Errors reading the source are not corrupt data
+    if (sourceError) throw sourceError.error;
+    throw decompressionError(label, error, compression, name);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Inputs for the parsers: Node streams, web streams, stdin and report files
+ */
+
+import type { ReadableStream as WebReadableStream } from "stream/web";
+
+/**
+ * Stream of report contents accepted by the parsers
+ */
+export type ReportStream =
+  | NodeJS.ReadableStream
+  | WebReadableStream<Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Checks whether an input is a stream rather than a parsed JSON object.
+ *
+ * @param input - Parser input
+ * @returns True for Node readable streams, web ReadableStreams and async iterables
+ */
+export function isReportStream(input: unknown): input is ReportStream {
+  if (typeof input !== "object" || input === null) return false;
+  return (
+    Symbol.asyncIterator in input ||
+    typeof (input as { getReader?: unknown }).getReader === "function"
+  );
+}
+
+/**
+ * Describe a missing report file, keeping other file system errors as they are
+ */
+export function toFileError(error: unknown, path: string): unknown {
+  if ((error as { code?: string }).code === "ENOENT") {
+    return new Error(`File not found: ${path}`);
+  }
+  return error;
+}
+
+/**
+ * Get an async iterator over a stream. Web streams are read through their reader,
+ * since cancelling it settles a pending read, unlike ending their async iteration.
+ */
+function iterate(stream: ReportStream): AsyncIterator<string | Uint8Array> {
+  if (typeof (stream as { getReader?: unknown }).getReader !== "function") {
+    return (stream as AsyncIterable<string | Uint8Array>)[Symbol.asyncIterator]();
+  }
+
+  const reader = (stream as WebReadableStream<Uint8Array>).getReader();
+  return {
+    next: async (): Promise<IteratorResult<Uint8Array>> => {
+      const result = await reader.read();
+      return result.done ? { done: true, value: undefined } : result;
+    },
+    return: async (): Promise<IteratorResult<Uint8Array>> => {
+      await reader.cancel();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Destroy a Node stream, which settles a read that is waiting for data
+ */
+function destroyStream(stream: ReportStream, reason: unknown): void {
+  const { destroy } = stream as { destroy?: (error?: Error) => void };
+  if (typeof destroy === "function") {
+    destroy.call(stream, reason instanceof Error ? reason : undefined);
+  }
+}
+
+/**
+ * Wait for a promise, rejecting with the signal's reason if it is aborted first
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Reads a stream as Buffer chunks, stopping as soon as the signal is aborted even
+ * while waiting for data. The stream is released when reading stops.
+ *
+ * @param stream - Node stream, web ReadableStream or async iterable of chunks
+ * @param signal - Signal to cancel reading
+ * @returns Async generator of Buffer chunks
+ * @throws The signal's reason if it is aborted
+ */
+export async function* readChunks(
+  stream: ReportStream,
+  signal?: AbortSignal,
+): AsyncGenerator<Buffer, void, undefined> {
+  const iterator = iterate(stream);
+  // Whether a read is still waiting for data, e.g. when stopped by an abort
+  let reading = false;
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      reading = true;
+      const result = await raceAbort(iterator.next(), signal);
+      reading = false;
+      if (result.done) return;
+      yield typeof result.value === "string" ?
+        Buffer.from(result.value)
+      : Buffer.from(
+          result.value.buffer,
+          result.value.byteOffset,
+          result.value.byteLength,
+        );
+    }
+  } finally {
+    if (reading) {
+      // Iterators only end after a pending read settles, which a stalled stream
+      // never does, so the stream is torn down without waiting for it
+      destroyStream(stream, signal?.reason);
+      void iterator.return?.().catch(() => undefined);
+    } else {
+      await iterator.return?.().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Reads a whole stream into memory.
+ *
+ * @param stream - Node stream, web ReadableStream or async iterable of chunks
+ * @param signal - Signal to cancel reading
+ * @returns Promise resolving to the stream contents
+ * @throws The signal's reason if it is aborted
+ */
+export async function readStream(
+  stream: ReportStream,
+  signal?: AbortSignal,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of readChunks(stream, signal)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
@@ -2,32 +2,76 @@
  * Normalizes Playwright JSON report into flat structure
  */
 
-import { randomUUID } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import type {
   NormalizedTestRun,
   NormalizedTest,
+  NormalizedAttempt,
+  NormalizedStep,
+  AttemptStatus,
+  TestOutcome,
   TestTotals,
   TestError,
   TestAttachment,
   TestAnnotation,
   ShardInfo,
+  NormalizeOptions,
+  TestRunSummary,
+  ParseWarning,
+  InventoryTest,
+  TestInventory,
+  ProjectConfig,
 } from "../types/index.js";
-import type { PlaywrightJsonReport } from "./validator.js";
+import { formatJsonPath, type PlaywrightJsonReport } from "./validator.js";
+import { collectTags } from "../utils/tags.js";
+import { parseStackFrames } from "../utils/stack.js";
+import { stripAnsi, hasAnsi } from "../utils/ansi.js";
+import { parseAssertionDetails } from "../utils/assertions.js";
+import { checkCompatibility, upgradeReport } from "./compat.js";
 
 /**
- * Generate a deterministic test ID based on test properties
+ * Generate a stable test ID from the project, file and title path of a test, so it
+ * does not depend on the position of the test in the report or on which other
+ * projects of its spec the report holds. Playwright's spec ID is shared by the
+ * tests of all projects, so it cannot identify a test on its own.
  */
-function generateTestId(
-  project: string,
-  file: string,
-  title: string,
-  index: number,
-): string {
-  return `${project}-${file}-${title}-${index}`.replace(/[^a-zA-Z0-9-]/g, "_");
+function generateTestId(project: string, file: string, titlePath: string[]): string {
+  return createHash("sha1")
+    .update([project, file, ...titlePath].join("\x1e"))
+    .digest("hex")
+    .slice(0, 20);
 }
 
 /**
- * Extract test error from Playwright error structure
+ * Create a function that disambiguates tests sharing an ID (e.g. repeatEach copies)
+ * with an occurrence suffix, in the order the tests are passed to it
+ */
+export function createIdDeduplicator(): (test: { id: string }) => void {
+  const seen = new Map<string, number>();
+
+  return (test) => {
+    const count = seen.get(test.id) ?? 0;
+    seen.set(test.id, count + 1);
+    if (count > 0) test.id = `${test.id}-${count}`;
+  };
+}
+
+/**
+ * Keep the colored error text when any part of it contains ANSI codes
+ */
+function extractColoredText(
+  message: string,
+  stack?: string,
+  snippet?: string,
+): TestError["colored"] {
+  const colored = [message, stack, snippet].some((text) => text && hasAnsi(text));
+  return colored ? { message, stack, snippet } : undefined;
+}
+
+/**
+ * Extract test error from Playwright error structure.
+ * Message, stack and snippet are stripped of ANSI codes; the colored originals
+ * are kept under `colored` for terminal output.
  */
 function extractError(error?: unknown): TestError | undefined {
   if (!error || typeof error !== "object") return undefined;
@@ -35,15 +79,36 @@ function extractError(error?: unknown): TestError | undefined {
   const err = error as Record<string, unknown>;
   const location = err.location as Record<string, unknown> | undefined;
 
+  const message = (err.message as string) || "Unknown error";
+  const stack = err.stack as string | undefined;
+  const snippet = err.snippet as string | undefined;
+  const plainMessage = stripAnsi(message);
+  const plainStack = stack && stripAnsi(stack);
+
   return {
-    message: (err.message as string) || "Unknown error",
-    stack: err.stack as string | undefined,
-    snippet: err.snippet as string | undefined,
+    message: plainMessage,
+    stack: plainStack,
+    snippet: snippet && stripAnsi(snippet),
+    file: location?.file as string | undefined,
     line: location?.line as number | undefined,
     column: location?.column as number | undefined,
+    frames: parseStackFrames(plainStack),
+    assertion: parseAssertionDetails(plainMessage),
+    colored: extractColoredText(message, stack, snippet),
   };
 }
 
+/**
+ * Extract all errors from a test attempt, falling back to the single error field
+ */
+function extractErrors(errors?: unknown[], error?: unknown): TestError[] {
+  const source =
+    errors && Array.isArray(errors) && errors.length > 0 ? errors : [error];
+  return source
+    .map((err) => extractError(err))
+    .filter((err): err is TestError => err !== undefined);
+}
+
 /**
  * Extract attachments from test attempt
  */
@@ -76,6 +141,81 @@ function extractAnnotations(annotations?: unknown[]): TestAnnotation[] {
   });
 }
 
+/**
+ * Extract the step tree from a test attempt
+ */
+function extractSteps(steps?: unknown[]): NormalizedStep[] {
+  if (!steps || !Array.isArray(steps)) return [];
+
+  return steps.map((stepRaw) => {
+    const step = stepRaw as Record<string, unknown>;
+    return {
+      title: (step.title as string) || "",
+      duration: (step.duration as number) || 0,
+      error: extractError(step.error),
+      steps: extractSteps(step.steps as unknown[]),
+    };
+  });
+}
+
+/**
+ * Decode console output chunks, which Playwright stores either as plain strings
+ * or as { text } / { buffer } objects with base64-encoded binary output
+ */
+function extractOutput(entries?: unknown[]): string[] {
+  if (!entries || !Array.isArray(entries)) return [];
+
+  return entries.map((entry) => {
+    if (typeof entry === "string") return entry;
+    const chunk = (entry || {}) as Record<string, unknown>;
+    if (typeof chunk.text === "string") return chunk.text;
+    if (typeof chunk.buffer === "string") {
+      return Buffer.from(chunk.buffer, "base64").toString("utf-8");
+    }
+    return "";
+  });
+}
+
+/**
+ * Determine attempt status, inferring it from errors when Playwright omits it
+ */
+function determineAttemptStatus(status: unknown, errors: TestError[]): AttemptStatus {
+  switch (status) {
+    case "passed":
+    case "failed":
+    case "timedOut":
+    case "skipped":
+    case "interrupted":
+      return status;
+    default:
+      return errors.length > 0 ? "failed" : "passed";
+  }
+}
+
+/**
+ * Extract every attempt (initial run and retries) of a test
+ */
+function extractAttempts(results: unknown[]): NormalizedAttempt[] {
+  return results.map((resultRaw, index) => {
+    const result = resultRaw as Record<string, unknown>;
+    const errors = extractErrors(result.errors as unknown[], result.error);
+
+    return {
+      retry: (result.retry as number | undefined) ?? index,
+      status: determineAttemptStatus(result.status, errors),
+      duration: (result.duration as number) || 0,
+      startTime: (result.startTime as string) || "",
+      workerIndex: (result.workerIndex as number | undefined) ?? -1,
+      parallelIndex: result.parallelIndex as number | undefined,
+      errors,
+      attachments: extractAttachments(result.attachments as unknown[]),
+      steps: extractSteps(result.steps as unknown[]),
+      stdout: extractOutput(result.stdout as unknown[]),
+      stderr: extractOutput(result.stderr as unknown[]),
+    };
+  });
+}
+
 /**
  * Determine test status based on Playwright status
  */
@@ -97,6 +237,104 @@ function determineTestStatus(
   }
 }
 
+/**
+ * Determine the precise test outcome from Playwright's test status, the
+ * expected status (test.fail()) and the status of the last attempt
+ */
+function determineTestOutcome(
+  status: string,
+  expectedStatus: unknown,
+  attempts: NormalizedAttempt[],
+): TestOutcome {
+  const lastStatus = attempts[attempts.length - 1]?.status;
+  const expectsFailure = expectedStatus === "failed" || expectedStatus === "timedOut";
+
+  switch (status) {
+    case "expected":
+      return expectsFailure && lastStatus !== "passed" ? "expectedFailure" : "passed";
+    case "unexpected":
+      if (expectsFailure && lastStatus === "passed") return "unexpectedPass";
+      if (lastStatus === "timedOut" || lastStatus === "interrupted") return lastStatus;
+      return "failed";
+    case "flaky":
+      return "flaky";
+    case "skipped":
+      // Playwright reports tests cut short by an interruption as skipped
+      return lastStatus === "interrupted" ? "interrupted" : "skipped";
+    default:
+      // Fallback to the last attempt when the test status is unknown
+      return lastStatus ?? "failed";
+  }
+}
+
+/**
+ * Normalize the tests of a spec.
+ * `suitePath` holds the titles of the enclosing suites, outermost first.
+ */
+export function normalizeSpec(
+  spec: Record<string, unknown>,
+  suite: Record<string, unknown>,
+  suitePath: string[],
+  project: string = "default",
+): NormalizedTest[] {
+  const tests: NormalizedTest[] = [];
+  const specTitle = spec.title as string;
+  const specPath = [...suitePath];
+  const tags = collectTags(spec.tags, [...specPath, specTitle]);
+  // Specs upgraded from suite-level tests carry their retries, and keep tests that
+  // did not run rather than leaving them out
+  const legacyRetries = typeof spec.retries === "number" ? spec.retries : undefined;
+
+  // Process tests within the spec
+  const specTests = (spec.tests as unknown[]) || [];
+  for (const testRaw of specTests) {
+    const test = testRaw as Record<string, unknown>;
+    const fullTitle = [...specPath, specTitle].filter(Boolean).join(" › ");
+    const projectName =
+      (test.projectName as string) || (test.projectId as string) || project;
+
+    // Get the test results (attempts)
+    const results = (test.results as unknown[]) || [];
+    if (results.length === 0 && legacyRetries === undefined) continue;
+
+    // Get the last result (most recent attempt)
+    const lastResult = (results[results.length - 1] || {}) as Record<string, unknown>;
+    const lastResultErrors = (lastResult.errors as unknown[]) || [];
+    const attempts = extractAttempts(results);
+
+    tests.push({
+      id: generateTestId(
+        projectName,
+        (spec.file as string) || (suite.file as string) || "unknown",
+        [...specPath, specTitle],
+      ),
+      title: specTitle,
+      fullTitle,
+      suitePath: [...specPath],
+      file: (spec.file as string) || (suite.file as string) || "unknown",
+      line: (spec.line as number) || (suite.line as number) || 0,
+      column: (spec.column as number) || (suite.column as number) || 0,
+      project: projectName,
+      status: determineTestStatus((test.status as string) || "unknown"),
+      outcome: determineTestOutcome(
+        (test.status as string) || "unknown",
+        test.expectedStatus,
+        attempts,
+      ),
+      duration: (lastResult.duration as number) || 0,
+      retries: legacyRetries ?? results.length - 1,
+      error: extractError(lastResult.error || lastResultErrors[0]),
+      errors: extractErrors(lastResultErrors, lastResult.error),
+      attachments: extractAttachments(lastResult.attachments as unknown[]),
+      annotations: extractAnnotations(test.annotations as unknown[]),
+      tags,
+      attempts,
+    });
+  }
+
+  return tests;
+}
+
 /**
  * Flatten nested suite structure into flat test array
  */
@@ -116,96 +354,70 @@ function flattenTests(
       tests.push(...flattenTests(suite.suites, suitePath, project));
     }
 
-    // Process specs (newer format)
+    // Process specs
     if (suite.specs && Array.isArray(suite.specs)) {
-      for (const specRaw of suite.specs) {
-        const spec = specRaw as Record<string, unknown>;
-        const specTitle = spec.title as string;
-        const specPath = [...suitePath];
-
-        // Process tests within the spec
-        const specTests = (spec.tests as unknown[]) || [];
-        for (let testIndex = 0; testIndex < specTests.length; testIndex++) {
-          const test = specTests[testIndex] as Record<string, unknown>;
-          const fullTitle = [...specPath, specTitle].filter(Boolean).join(" › ");
-          const projectName =
-            (test.projectName as string) || (test.projectId as string) || project;
-
-          // Get the test results (attempts)
-          const results = (test.results as unknown[]) || [];
-          if (results.length === 0) continue;
-
-          // Get the last result (most recent attempt)
-          const lastResult = results[results.length - 1] as Record<string, unknown>;
-          const lastResultErrors = (lastResult.errors as unknown[]) || [];
-
-          tests.push({
-            id: generateTestId(
-              projectName,
-              (spec.file as string) || (suite.file as string) || "unknown",
-              specTitle,
-              testIndex,
-            ),
-            title: specTitle,
-            fullTitle,
-            file: (spec.file as string) || (suite.file as string) || "unknown",
-            line: (spec.line as number) || (suite.line as number) || 0,
-            column: (spec.column as number) || (suite.column as number) || 0,
-            project: projectName,
-            status: determineTestStatus((test.status as string) || "unknown"),
-            duration: (lastResult.duration as number) || 0,
-            retries: results.length - 1,
-            error: extractError(lastResult.error || lastResultErrors[0]),
-            attachments: extractAttachments(lastResult.attachments as unknown[]),
-            annotations: extractAnnotations(test.annotations as unknown[]),
-          });
-        }
+      for (const spec of suite.specs) {
+        tests.push(...normalizeSpec(spec, suite, suitePath, project));
       }
     }
+  }
 
-    // Process tests (older format)
-    if (suite.tests && Array.isArray(suite.tests)) {
-      for (const testRaw of suite.tests) {
-        const test = testRaw as Record<string, unknown>;
-        const testTests = (test.tests as unknown[]) || [];
-        const testLocation = test.location as Record<string, unknown> | undefined;
-
-        for (const testResultRaw of testTests) {
-          const testResult = testResultRaw as Record<string, unknown>;
-          const fullTitle = [...suitePath, test.title as string]
-            .filter(Boolean)
-            .join(" › ");
-          const projectName = (testResult.projectName as string) || project;
-
-          // Get the last result (most recent attempt)
-          const results = (testResult.results as unknown[]) || [];
-          const lastResult = (results[results.length - 1] || {}) as Record<
-            string,
-            unknown
-          >;
-          const lastResultErrors = (lastResult.errors as unknown[]) || [];
-
-          tests.push({
-            id: generateTestId(
-              projectName,
-              (suite.file as string) || "unknown",
-              test.title as string,
-              tests.length,
-            ),
-            title: test.title as string,
-            fullTitle,
-            file: (testLocation?.file as string) || (suite.file as string) || "unknown",
-            line: (testLocation?.line as number) || (suite.line as number) || 0,
-            column: (testLocation?.column as number) || (suite.column as number) || 0,
-            project: projectName,
-            status: determineTestStatus((testResult.status as string) || "unknown"),
-            duration: (lastResult.duration as number) || 0,
-            retries: (test.retries as number) || 0,
-            error: extractError(lastResult.error || lastResultErrors[0]),
-            attachments: extractAttachments(lastResult.attachments as unknown[]),
-            annotations: extractAnnotations(testResult.annotations as unknown[]),
-          });
-        }
+  return tests;
+}
+
+/**
+ * List the tests of a spec, including those without results.
+ * `suitePath` holds the titles of the enclosing suites, outermost first.
+ */
+export function listSpecTests(
+  spec: Record<string, unknown>,
+  suite: Record<string, unknown>,
+  suitePath: string[],
+): InventoryTest[] {
+  const specTitle = spec.title as string;
+  const tags = collectTags(spec.tags, [...suitePath, specTitle]);
+  const file = (spec.file as string) || (suite.file as string) || "unknown";
+  const specTests = (spec.tests as unknown[]) || [];
+
+  return specTests.map((testRaw) => {
+    const test = testRaw as Record<string, unknown>;
+    const projectName =
+      (test.projectName as string) || (test.projectId as string) || "default";
+
+    return {
+      id: generateTestId(projectName, file, [...suitePath, specTitle]),
+      title: specTitle,
+      fullTitle: [...suitePath, specTitle].filter(Boolean).join(" › "),
+      suitePath: [...suitePath],
+      file,
+      line: (spec.line as number) || (suite.line as number) || 0,
+      column: (spec.column as number) || (suite.column as number) || 0,
+      project: projectName,
+      tags,
+      annotations: extractAnnotations(test.annotations as unknown[]),
+      expectedStatus:
+        (test.expectedStatus as InventoryTest["expectedStatus"]) || "passed",
+      timeout: (test.timeout as number) || 0,
+    };
+  });
+}
+
+/**
+ * List the tests of nested suites in report order
+ */
+function listTests(suites: unknown[], parentPath: string[] = []): InventoryTest[] {
+  const tests: InventoryTest[] = [];
+
+  for (const suiteRaw of suites) {
+    const suite = suiteRaw as Record<string, unknown>;
+    const suitePath = [...parentPath, suite.title as string].filter(Boolean);
+
+    if (suite.suites && Array.isArray(suite.suites)) {
+      tests.push(...listTests(suite.suites, suitePath));
+    }
+    if (suite.specs && Array.isArray(suite.specs)) {
+      for (const spec of suite.specs) {
+        tests.push(...listSpecTests(spec, suite, suitePath));
       }
     }
   }
@@ -214,38 +426,40 @@ function flattenTests(
 }
 
 /**
- * Calculate test totals from normalized tests
+ * Create empty test totals
  */
-function calculateTotals(tests: NormalizedTest[]): TestTotals {
-  const totals: TestTotals = {
-    total: tests.length,
+export function createTotals(): TestTotals {
+  return {
+    total: 0,
     passed: 0,
     failed: 0,
     skipped: 0,
     flaky: 0,
     duration: 0,
   };
+}
 
-  for (const test of tests) {
-    totals.duration += test.duration;
-
-    switch (test.status) {
-      case "passed":
-        totals.passed++;
-        break;
-      case "failed":
-        totals.failed++;
-        break;
-      case "skipped":
-        totals.skipped++;
-        break;
-      case "flaky":
-        totals.flaky++;
-        break;
-    }
+/**
+ * Add a normalized test to running totals
+ */
+export function addToTotals(totals: TestTotals, test: NormalizedTest): void {
+  totals.total++;
+  totals.duration += test.duration;
+
+  switch (test.status) {
+    case "passed":
+      totals.passed++;
+      break;
+    case "failed":
+      totals.failed++;
+      break;
+    case "skipped":
+      totals.skipped++;
+      break;
+    case "flaky":
+      totals.flaky++;
+      break;
   }
-
-  return totals;
 }
 
 /**
@@ -253,7 +467,7 @@ function calculateTotals(tests: NormalizedTest[]): TestTotals {
  */
 function extractShardInfo(
   report: PlaywrightJsonReport,
-  tests: NormalizedTest[],
+  testCount: number,
 ): ShardInfo[] | undefined {
   if (!report.config.shard) {
     return undefined;
@@ -264,23 +478,123 @@ function extractShardInfo(
       current: report.config.shard.current,
       total: report.config.shard.total,
       duration: report.stats?.duration || 0,
-      testCount: tests.length,
+      testCount,
     },
   ];
 }
 
 /**
- * Extract project names from config
+ * Add the project names referenced by the tests of a spec
  */
-function extractProjects(report: PlaywrightJsonReport): string[] {
-  const projects = new Set<string>();
-
-  // Get from config
-  if (report.config?.projects) {
-    for (const project of report.config.projects) {
-      projects.add(project.name);
+export function collectSpecProjects(
+  spec: Record<string, unknown>,
+  projects: Set<string>,
+): void {
+  const specTests = (spec.tests as unknown[]) || [];
+  for (const testRaw of specTests) {
+    const test = testRaw as Record<string, unknown>;
+    if (test.projectName) {
+      projects.add(test.projectName as string);
+    }
+    const testTests = (test.tests as unknown[]) || [];
+    for (const resultRaw of testTests) {
+      const result = resultRaw as Record<string, unknown>;
+      if (result.projectName) {
+        projects.add(result.projectName as string);
+      }
     }
   }
+}
+
+/**
+ * Warn about the tests of a spec that have no results, which are left out of the run.
+ * `path` is the JSON path of the spec in the report.
+ */
+export function collectUnrunTests(
+  spec: Record<string, unknown>,
+  path: readonly PropertyKey[],
+  warnings: ParseWarning[],
+): void {
+  // Specs upgraded from suite-level tests keep their tests without results
+  if (typeof spec.retries === "number") return;
+
+  const specTests = (spec.tests as unknown[]) || [];
+  specTests.forEach((testRaw, index) => {
+    const test = testRaw as Record<string, unknown>;
+    const results = (test.results as unknown[]) || [];
+    if (results.length > 0) return;
+
+    const project = (test.projectName as string) || (test.projectId as string);
+    warnings.push({
+      path: formatJsonPath([...path, "tests", index]),
+      message: `Left out test without results: ${spec.title as string}${project ? ` [${project}]` : ""}`,
+    });
+  });
+}
+
+/**
+ * Find the tests without results in all suites
+ */
+function findUnrunTests(report: PlaywrightJsonReport): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+
+  function scanSuites(suites: unknown[], path: PropertyKey[]): void {
+    suites.forEach((suiteRaw, index) => {
+      const suite = suiteRaw as Record<string, unknown>;
+      const suitePath = [...path, index];
+      if (Array.isArray(suite.suites)) {
+        scanSuites(suite.suites, [...suitePath, "suites"]);
+      }
+      if (Array.isArray(suite.specs)) {
+        suite.specs.forEach((spec: Record<string, unknown>, specIndex: number) =>
+          collectUnrunTests(spec, [...suitePath, "specs", specIndex], warnings),
+        );
+      }
+    });
+  }
+
+  scanSuites(report.suites, ["suites"]);
+
+  return warnings;
+}
+
+/**
+ * Status counts of the report's stats, with the totals they correspond to
+ */
+const STATS_TOTALS = [
+  ["expected", "passed"],
+  ["unexpected", "failed"],
+  ["flaky", "flaky"],
+  ["skipped", "skipped"],
+] as const;
+
+/**
+ * Compare the status counts Playwright recorded in the report's stats with the
+ * totals of the normalized tests, warning about each count that differs
+ */
+function checkStats(
+  stats: PlaywrightJsonReport["stats"],
+  totals: TestTotals,
+): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+
+  for (const [key, total] of STATS_TOTALS) {
+    const reported = stats?.[key];
+    if (reported === undefined || reported === totals[total]) continue;
+    warnings.push({
+      path: formatJsonPath(["stats", key]),
+      message: `Report stats count ${reported} ${key} tests, but ${totals[total]} ${total} tests were parsed`,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Extract project names from config
+ */
+function extractProjects(report: PlaywrightJsonReport): Set<string> {
+  const projects = new Set<string>();
 
   // Also scan through all tests to find project names
   function scanSuites(suites: unknown[]): void {
@@ -288,47 +602,151 @@ function extractProjects(report: PlaywrightJsonReport): string[] {
       const suite = suiteRaw as Record<string, unknown>;
       if (suite.suites && Array.isArray(suite.suites)) scanSuites(suite.suites);
       if (suite.specs && Array.isArray(suite.specs)) {
-        for (const specRaw of suite.specs) {
-          const spec = specRaw as Record<string, unknown>;
-          const specTests = (spec.tests as unknown[]) || [];
-          for (const testRaw of specTests) {
-            const test = testRaw as Record<string, unknown>;
-            const testTests = (test.tests as unknown[]) || [];
-            for (const resultRaw of testTests) {
-              const result = resultRaw as Record<string, unknown>;
-              if (result.projectName) {
-                projects.add(result.projectName as string);
-              }
-            }
-          }
-        }
-      }
-      if (suite.tests && Array.isArray(suite.tests)) {
-        for (const testRaw of suite.tests) {
-          const test = testRaw as Record<string, unknown>;
-          const testTests = (test.tests as unknown[]) || [];
-          for (const resultRaw of testTests) {
-            const result = resultRaw as Record<string, unknown>;
-            if (result.projectName) {
-              projects.add(result.projectName as string);
-            }
-          }
-        }
+        for (const spec of suite.specs) collectSpecProjects(spec, projects);
       }
     }
   }
 
   scanSuites(report.suites);
 
-  return Array.from(projects).sort();
+  return projects;
 }
 
 /**
- * Normalize Playwright JSON report into flat structure
+ * Playwright's defaults for project settings a report leaves out
+ */
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 0;
+const DEFAULT_REPEAT_EACH = 1;
+
+/**
+ * Read a viewport size, which is null when the project disables the viewport
+ */
+function extractViewport(viewport: unknown): ProjectConfig["viewport"] {
+  if (viewport === null) return null;
+  if (typeof viewport !== "object") return undefined;
+  const { width, height } = viewport as Record<string, unknown>;
+  return typeof width === "number" && typeof height === "number" ?
+      { width, height }
+    : undefined;
+}
+
+/**
+ * Extract the effective configuration of each project in the report's config
+ */
+function extractProjectConfigs(
+  report: PlaywrightJsonReport,
+): Record<string, ProjectConfig> {
+  const configs: Record<string, ProjectConfig> = {};
+
+  for (const project of report.config?.projects ?? []) {
+    const use = (project.use ?? {}) as Record<string, unknown>;
+    // Device descriptors set the default browser rather than browserName
+    const browserName = use.browserName ?? use.defaultBrowserType;
+
+    configs[project.name] = {
+      name: project.name,
+      timeout: project.timeout ?? DEFAULT_TIMEOUT,
+      retries: project.retries ?? DEFAULT_RETRIES,
+      repeatEach: project.repeatEach ?? DEFAULT_REPEAT_EACH,
+      browserName: typeof browserName === "string" ? browserName : undefined,
+      channel: typeof use.channel === "string" ? use.channel : undefined,
+      viewport: extractViewport(use.viewport),
+      isMobile: typeof use.isMobile === "boolean" ? use.isMobile : undefined,
+      dependencies: project.dependencies ?? [],
+      testDir: project.testDir,
+      metadata: project.metadata as Record<string, unknown> | undefined,
+    };
+  }
+
+  return configs;
+}
+
+/**
+ * Hash the canonical JSON of a validated spec. Run IDs are derived from these hashes,
+ * so a report gets the same ID whether it is parsed as a whole or streamed.
+ */
+export function hashSpec(spec: Record<string, unknown>): string {
+  return createHash("sha1").update(JSON.stringify(spec)).digest("hex");
+}
+
+/**
+ * Hash every spec below the suites
+ */
+function hashSpecs(suites: unknown[]): string[] {
+  return suites.flatMap((suiteRaw) => {
+    const suite = suiteRaw as Record<string, unknown>;
+    const specs = Array.isArray(suite.specs) ? suite.specs : [];
+    const nested = Array.isArray(suite.suites) ? suite.suites : [];
+    return [
+      ...specs.map((spec) => hashSpec(spec as Record<string, unknown>)),
+      ...hashSpecs(nested),
+    ];
+  });
+}
+
+/**
+ * Copy suites without their specs, which are hashed on their own
+ */
+function stripSpecs(suites: unknown[]): unknown[] {
+  return suites.map((suiteRaw) => {
+    const entries = Object.entries(suiteRaw as Record<string, unknown>)
+      .filter(([key]) => key !== "specs")
+      .map(([key, value]) =>
+        key === "suites" && Array.isArray(value) ?
+          [key, stripSpecs(value)]
+        : [key, value],
+      );
+    return Object.fromEntries(entries);
+  });
+}
+
+/**
+ * Derive a UUID-formatted run ID from the report's start time, config, suites and
+ * errors, and the hashes of its specs. `specHashes` is given when the specs were not
+ * held in memory (e.g. when streaming); it is sorted, as specs of suites whose title
+ * follows them are streamed late.
+ */
+function deriveRunId(report: PlaywrightJsonReport, specHashes?: string[]): string {
+  const hash = createHash("sha1")
+    .update(report.stats?.startTime ?? "")
+    .update("\x1e")
+    .update(JSON.stringify(report.config))
+    .update("\x1e")
+    .update(
+      JSON.stringify({ suites: stripSpecs(report.suites), errors: report.errors }),
+    )
+    .update("\x1e")
+    .update([...(specHashes ?? hashSpecs(report.suites))].sort().join("\n"))
+    .digest("hex");
+
+  // Shape the hash like a name-based (version 5) UUID
+  const variant = ((parseInt(hash[16]!, 16) & 0x3) | 0x8).toString(16);
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    `5${hash.slice(13, 16)}`,
+    `${variant}${hash.slice(17, 20)}`,
+    hash.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Build the run-level fields of a normalized run from the report, the totals of its
+ * normalized tests and the project names referenced by their results. `specHashes`
+ * holds the hashes of the specs when the report's suites no longer contain them.
  */
-export function normalizeTestRun(report: PlaywrightJsonReport): NormalizedTestRun {
+export function summarizeTestRun(
+  report: PlaywrightJsonReport,
+  totals: TestTotals,
+  testProjects: Set<string>,
+  options: NormalizeOptions = {},
+  specHashes?: string[],
+): TestRunSummary {
   // Generate run ID
-  const runId = randomUUID();
+  const runId =
+    options.runId ??
+    (options.deterministicRunId ? deriveRunId(report, specHashes) : randomUUID());
 
   // Extract timestamps
   const startedAt = report.stats?.startTime || new Date().toISOString();
@@ -339,27 +757,92 @@ export function normalizeTestRun(report: PlaywrightJsonReport): NormalizedTestRu
       new Date(new Date(report.stats.startTime).getTime() + duration).toISOString()
     : new Date().toISOString();
 
-  // Extract projects
-  const projects = extractProjects(report);
-
-  // Flatten all tests
-  const tests = flattenTests(report.suites);
-
-  // Calculate totals
-  const totals = calculateTotals(tests);
+  // Extract projects from config and tests
+  const projects = new Set<string>();
+  for (const project of report.config?.projects ?? []) {
+    projects.add(project.name);
+  }
+  for (const project of testProjects) {
+    projects.add(project);
+  }
 
   // Extract shard info
-  const shards = extractShardInfo(report, tests);
+  const shards = extractShardInfo(report, totals.total);
+
+  // Extract report-level errors (global setup/teardown, worker crashes)
+  const errors = extractErrors(report.errors);
 
   return {
     runId,
     startedAt,
     endedAt,
     duration,
-    projects,
+    projects: Array.from(projects).sort(),
     shards,
     totals,
-    tests,
+    errors,
     metadata: report.config?.metadata,
+    warnings: [
+      ...checkCompatibility(report.config?.version),
+      ...checkStats(report.stats, totals),
+    ],
+    playwrightVersion: report.config?.version,
+    projectConfigs: extractProjectConfigs(report),
+  };
+}
+
+/**
+ * Normalize Playwright JSON report into flat structure
+ */
+export function normalizeTestRun(
+  report: PlaywrightJsonReport,
+  options: NormalizeOptions = {},
+): NormalizedTestRun {
+  // Reports that have not been validated may still use an older layout
+  const upgraded = upgradeReport(report).report as PlaywrightJsonReport;
+
+  // Flatten all tests
+  const tests = flattenTests(upgraded.suites);
+  tests.forEach(createIdDeduplicator());
+
+  // Calculate totals
+  const totals = createTotals();
+  for (const test of tests) {
+    addToTotals(totals, test);
+  }
+
+  const summary = summarizeTestRun(
+    upgraded,
+    totals,
+    extractProjects(upgraded),
+    options,
+  );
+  return {
+    ...summary,
+    // Tests without results explain stats discrepancies, so they are listed first
+    warnings: [...findUnrunTests(upgraded), ...(summary.warnings ?? [])],
+    tests,
+  };
+}
+
+/**
+ * List every test declared in a Playwright JSON report, whether or not it ran
+ */
+export function normalizeTestInventory(report: PlaywrightJsonReport): TestInventory {
+  const upgraded = upgradeReport(report).report as PlaywrightJsonReport;
+
+  const tests = listTests(upgraded.suites);
+  tests.forEach(createIdDeduplicator());
+
+  const projects = new Set(upgraded.config?.projects?.map((project) => project.name));
+  for (const test of tests) {
+    projects.add(test.project);
+  }
+
+  return {
+    projects: Array.from(projects).sort(),
+    tests,
+    warnings: checkCompatibility(upgraded.config?.version),
+    playwrightVersion: upgraded.config?.version,
   };
 }
@@ -3,15 +3,89 @@
  */
 
 import { promises as fs } from "fs";
-import type { NormalizedTestRun } from "../types/index.js";
-import { validatePlaywrightJson, ValidationError } from "./validator.js";
-import { normalizeTestRun } from "./normalizer.js";
+import type {
+  InventoryOptions,
+  NormalizedTestRun,
+  ParseOptions,
+  TestInventory,
+} from "../types/index.js";
+import { validateReport, ValidationError } from "./validator.js";
+import { normalizeTestInventory, normalizeTestRun } from "./normalizer.js";
+import { decompressBuffer } from "./compression.js";
+import { isReportStream, readStream, toFileError, type ReportStream } from "./input.js";
+
+/**
+ * Read a report input into parsed JSON, reading files and streams to the end and
+ * decompressing them if needed
+ */
+async function readReportJson(
+  input: string | object | Buffer | ReportStream,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  let jsonData: unknown;
+
+  // Handle different input types
+  if (input === "-" || isReportStream(input)) {
+    // Stdin or stream - read to the end, decompress if needed and parse
+    const label = input === "-" ? "stdin" : "stream";
+    try {
+      const content = await decompressBuffer(
+        await readStream(input === "-" ? process.stdin : input, signal),
+        label,
+      );
+      jsonData = JSON.parse(content.toString("utf-8"));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new ValidationError(`Invalid JSON in ${label}: ${error.message}`);
+      }
+      throw error;
+    }
+  } else if (typeof input === "string") {
+    // File path - read and parse
+    try {
+      const fileContent = await decompressBuffer(
+        await fs.readFile(input, { signal }),
+        `file ${input}`,
+        input,
+      );
+      jsonData = JSON.parse(fileContent.toString("utf-8"));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new ValidationError(`Invalid JSON in file ${input}: ${error.message}`);
+      }
+      throw toFileError(error, input);
+    }
+  } else if (Buffer.isBuffer(input)) {
+    // Buffer - decompress if needed, convert to string and parse
+    try {
+      const content = (await decompressBuffer(input, "buffer")).toString("utf-8");
+      jsonData = JSON.parse(content);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new ValidationError(`Invalid JSON in buffer: ${error.message}`);
+      }
+      throw error;
+    }
+  } else if (typeof input === "object" && input !== null) {
+    // Already parsed JSON object
+    jsonData = input;
+  } else {
+    throw new Error("Input must be a file path string, JSON object, or Buffer");
+  }
+
+  return jsonData;
+}
 
 /**
  * Parses Playwright JSON reporter output into a normalized structure.
- * Supports multiple input formats including file paths, JSON objects, and Buffers.
+ * Supports multiple input formats including file paths, JSON objects, Buffers, and
+ * Node or web streams, with `"-"` reading from stdin.
+ * Gzip and brotli compressed files, Buffers and streams are decompressed transparently.
  *
- * @param input - File path to JSON report, parsed JSON object, or Buffer containing JSON
+ * @param input - File path to JSON report, `"-"` for stdin, parsed JSON object, Buffer
+ * containing JSON, or a stream of JSON
+ * @param options - Normalization options, e.g. a caller-provided or deterministic runId,
+ * lenient validation, and a signal to cancel the parse
  * @returns Promise resolving to normalized test run data with consistent structure
  *
  * @example
@@ -36,50 +110,109 @@ import { normalizeTestRun } from "./normalizer.js";
  * const results = await parsePlaywrightJson(buffer);
  * ```
  *
- * @throws {Error} If input is not a valid file path, JSON object, or Buffer
- * @throws {ValidationError} If JSON structure doesn't match Playwright reporter format
+ * @example
+ * ```typescript
+ * // Parse an archived, gzip-compressed report
+ * const results = await parsePlaywrightJson('./results.json.gz');
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Parse from a stream, e.g. `npx playwright test --reporter=json | node parse.js -`
+ * const results = await parsePlaywrightJson(process.argv[2] ?? '-');
+ * const response = await fetch(reportUrl);
+ * const remote = await parsePlaywrightJson(response.body!);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Give up on a slow parse after 30 seconds
+ * const results = await parsePlaywrightJson('./results.json', {
+ *   signal: AbortSignal.timeout(30_000),
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Keep the valid parts of a report from a newer Playwright version
+ * const results = await parsePlaywrightJson('./results.json', { mode: 'lenient' });
+ * results.warnings?.forEach((w) => console.warn(`${w.path}: ${w.message}`));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Stable run ID for caching and deduplication
+ * const results = await parsePlaywrightJson('./results.json', { deterministicRunId: true });
+ *
+ * // Caller-provided run ID
+ * const results = await parsePlaywrightJson('./results.json', { runId: process.env.BUILD_ID });
+ * ```
+ *
+ * @throws {Error} If input is not a valid file path, JSON object, Buffer, or stream
+ * @throws {ValidationError} If JSON structure doesn't match Playwright reporter format,
+ * or in lenient mode if the input is not a JSON object
+ * @throws The signal's reason, typically an `AbortError`, if the parse is cancelled
  */
 export async function parsePlaywrightJson(
-  input: string | object | Buffer,
+  input: string | object | Buffer | ReportStream,
+  options: ParseOptions = {},
 ): Promise<NormalizedTestRun> {
-  let jsonData: unknown;
+  const { signal, mode = "strict", ...normalizeOptions } = options;
+  signal?.throwIfAborted();
+  const jsonData = await readReportJson(input, signal);
 
-  // Handle different input types
-  if (typeof input === "string") {
-    // File path - read and parse
-    try {
-      const fileContent = await fs.readFile(input, "utf-8");
-      jsonData = JSON.parse(fileContent);
-    } catch (error) {
-      if ((error as { code?: string }).code === "ENOENT") {
-        throw new Error(`File not found: ${input}`);
-      }
-      if (error instanceof SyntaxError) {
-        throw new ValidationError(`Invalid JSON in file ${input}: ${error.message}`);
-      }
-      throw error;
-    }
-  } else if (Buffer.isBuffer(input)) {
-    // Buffer - convert to string and parse
-    try {
-      const content = input.toString("utf-8");
-      jsonData = JSON.parse(content);
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new ValidationError(`Invalid JSON in buffer: ${error.message}`);
-      }
-      throw error;
-    }
-  } else if (typeof input === "object" && input !== null) {
-    // Already parsed JSON object
-    jsonData = input;
-  } else {
-    throw new Error("Input must be a file path string, JSON object, or Buffer");
-  }
+  // Validation and normalization run synchronously, so this is the last chance to stop
+  signal?.throwIfAborted();
+
+  // In lenient mode, keep the valid parts of the report, listing what was skipped
+  const { report, warnings } = validateReport(jsonData, mode);
+  const run = normalizeTestRun(report, normalizeOptions);
+  return { ...run, warnings: [...warnings, ...(run.warnings ?? [])] };
+}
 
-  // Validate JSON structure
-  const validatedReport = validatePlaywrightJson(jsonData);
+/**
+ * Lists every test declared in a Playwright JSON report, including tests that did
+ * not run. Reports written with `playwright test --list --reporter=json` declare
+ * tests without running them, so `parsePlaywrightJson` would return an empty run.
+ * Test IDs match those of a normalized run, so an inventory can be compared with
+ * the results of a later run. Accepts the same inputs as `parsePlaywrightJson`.
+ *
+ * @param input - File path to JSON report, `"-"` for stdin, parsed JSON object, Buffer
+ * containing JSON, or a stream of JSON
+ * @param options - Lenient validation, and a signal to cancel the parse
+ * @returns Promise resolving to the declared tests and their projects
+ *
+ * @example
+ * ```typescript
+ * // npx playwright test --list --reporter=json > inventory.json
+ * const inventory = await parseTestInventory('./inventory.json');
+ * const files = new Set(inventory.tests.map((test) => test.file));
+ * console.log(`${inventory.tests.length} tests in ${files.size} files`);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Tests that are declared but did not run
+ * const run = await parsePlaywrightJson('./results.json');
+ * const ran = new Set(run.tests.map((test) => test.id));
+ * const dead = inventory.tests.filter((test) => !ran.has(test.id));
+ * ```
+ *
+ * @throws {Error} If input is not a valid file path, JSON object, Buffer, or stream
+ * @throws {ValidationError} If JSON structure doesn't match Playwright reporter format,
+ * or in lenient mode if the input is not a JSON object
+ * @throws The signal's reason, typically an `AbortError`, if the parse is cancelled
+ */
+export async function parseTestInventory(
+  input: string | object | Buffer | ReportStream,
+  options: InventoryOptions = {},
+): Promise<TestInventory> {
+  const { signal, mode = "strict" } = options;
+  signal?.throwIfAborted();
+  const jsonData = await readReportJson(input, signal);
+  signal?.throwIfAborted();
 
-  // Normalize the data
-  return normalizeTestRun(validatedReport);
+  const { report, warnings } = validateReport(jsonData, mode);
+  const inventory = normalizeTestInventory(report);
+  return { ...inventory, warnings: [...warnings, ...(inventory.warnings ?? [])] };
 }
@@ -0,0 +1,272 @@
+/**
+ * Parses every report in a directory or matching a glob, grouped by execution
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  NormalizedTestRun,
+  ParsedReports,
+  ParseReportsOptions,
+  ReportExecution,
+  ReportFileError,
+} from "../types/index.js";
+import {
+  aggregateShardedRuns,
+  areRunsFromSameExecution,
+} from "../aggregator/shards.js";
+import { parsePlaywrightJson } from "./parser.js";
+import { parseBlobReport } from "./blob.js";
+import { toFileError } from "./input.js";
+
+const DEFAULT_CONCURRENCY = 4;
+const GLOB_CHARACTERS = /[*?[{]/;
+const REPORT_FILE = /\.(?:json|json\.gz|json\.br|zip)$/;
+
+/**
+ * Report file parsed into a run
+ */
+interface ParsedReport {
+  file: string;
+  run: NormalizedTestRun;
+}
+
+/**
+ * Convert a glob to a regular expression over `/`-separated relative paths.
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches any number of directories, including none
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2);
+      source += `[${glob
+        .slice(i + 1, end)
+        .replace(/^!/, "^")
+        .replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (char === "{") {
+      source += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      source += ")";
+      braces--;
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[\\^$.+()|[\]{}]/, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List the report files of a directory, without descending into subdirectories
+ */
+async function listReportFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && REPORT_FILE.test(entry.name))
+    .map((entry) => path.join(dir, entry.name));
+}
+
+/**
+ * Find the files matching a glob, walking only below its static prefix
+ */
+async function matchGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment));
+  const base =
+    firstGlob === 1 && segments[0] === "" ?
+      "/"
+    : segments.slice(0, firstGlob).join("/");
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join("/"));
+  const maxDepth =
+    rest.some((segment) => segment.includes("**")) ? Infinity : rest.length;
+
+  const files: string[] = [];
+  const walk = async (relative: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(base || ".", relative), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      // A missing base directory simply matches nothing
+      if ((error as { code?: string }).code === "ENOENT") return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && depth < maxDepth) {
+        await walk(entryPath, depth + 1);
+      } else if (entry.isFile() && matcher.test(entryPath)) {
+        files.push(base ? path.join(base, entryPath) : entryPath);
+      }
+    }
+  };
+  await walk("", 1);
+
+  return files;
+}
+
+/**
+ * Resolve a directory, glob or single file to report files, sorted by path
+ */
+async function findReportFiles(globOrDir: string): Promise<string[]> {
+  // Globs use forward slashes on every platform
+  const pattern = globOrDir.replace(/\\/g, "/");
+  if (GLOB_CHARACTERS.test(pattern)) {
+    return (await matchGlob(pattern)).sort();
+  }
+
+  try {
+    const stats = await fs.stat(globOrDir);
+    return stats.isDirectory() ?
+        (await listReportFiles(globOrDir)).sort()
+      : [globOrDir];
+  } catch (error) {
+    throw toFileError(error, globOrDir);
+  }
+}
+
+/**
+ * Map items through an async function, running at most `limit` calls at a time
+ */
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+  return results;
+}
+
+/**
+ * Group parsed reports into executions, adding each report to the first execution
+ * it is consistent with
+ */
+function groupByExecution(reports: ParsedReport[]): ReportExecution[] {
+  const groups: { files: string[]; runs: NormalizedTestRun[] }[] = [];
+
+  for (const { file, run } of reports) {
+    const group = groups.find((candidate) =>
+      areRunsFromSameExecution([...candidate.runs, run]),
+    );
+    if (group) {
+      group.files.push(file);
+      group.runs.push(run);
+    } else {
+      groups.push({ files: [file], runs: [run] });
+    }
+  }
+
+  return groups.map((group) => ({
+    files: group.files,
+    run: aggregateShardedRuns(group.runs),
+  }));
+}
+
+/**
+ * Parses all reports in a directory or matching a glob, and aggregates the shards of
+ * each execution into one run. A directory is searched for `.json`, `.json.gz`,
+ * `.json.br` and blob report `.zip` files without descending into subdirectories;
+ * use a glob with a `**` segment to search recursively. Files that cannot be parsed
+ * are reported alongside the runs instead of failing the whole call.
+ *
+ * Reports are grouped in path order with `areRunsFromSameExecution`: a report joins
+ * the first execution whose shards it complements, and reports without shard info
+ * each form their own execution.
+ *
+ * @param globOrDir - Directory, glob (with forward slashes) or single report file
+ * @param options - Normalization options and validation mode applied to each report,
+ * including blob reports, the number of reports parsed at a time, and a signal to
+ * cancel parsing. Each execution gets its own run ID.
+ * @returns Promise resolving to one aggregated run per execution and per-file errors
+ *
+ * @example
+ * ```typescript
+ * const { executions, errors } = await parsePlaywrightReports('./test-results');
+ * for (const { files, run } of executions) {
+ *   console.log(`${files.length} shard(s): ${run.totals.failed} failed`);
+ * }
+ * errors.forEach(({ file, error }) => console.warn(`${file}: ${error.message}`));
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Glob over downloaded CI artifacts, parsing up to 8 reports at once
+ * const results = await parsePlaywrightReports('artifacts/shard-?/results.json', {
+ *   concurrency: 8,
+ * });
+ * ```
+ *
+ * @throws {Error} If a directory or file given without glob characters does not exist
+ * @throws {Error} If concurrency is not a positive integer
+ * @throws The signal's reason, typically an `AbortError`, if parsing is cancelled
+ */
+export async function parsePlaywrightReports(
+  globOrDir: string,
+  options: ParseReportsOptions = {},
+): Promise<ParsedReports> {
+  const { concurrency = DEFAULT_CONCURRENCY, ...parseOptions } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  const files = await findReportFiles(globOrDir);
+  const { signal } = parseOptions;
+
+  const results = await mapConcurrent(
+    files,
+    concurrency,
+    async (file): Promise<ParsedReport | ReportFileError> => {
+      try {
+        const run =
+          file.endsWith(".zip") ?
+            await parseBlobReport(file, parseOptions)
+          : await parsePlaywrightJson(file, parseOptions);
+        return { file, run };
+      } catch (error) {
+        // Cancellation stops the whole call rather than failing a single file
+        if (signal?.aborted) throw signal.reason;
+        return {
+          file,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+    },
+  );
+
+  return {
+    executions: groupByExecution(
+      results.filter((result): result is ParsedReport => "run" in result),
+    ),
+    errors: results.filter((result): result is ReportFileError => "error" in result),
+  };
+}
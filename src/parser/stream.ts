@@ -0,0 +1,402 @@
+/**
+ * Streaming parser for Playwright JSON reports too large to load at once
+ */
+
+import { promises as fs } from "fs";
+import { Duplex, Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import type { z } from "zod";
+import type {
+  NormalizedTest,
+  ParseOptions,
+  ParseWarning,
+  StreamParseOptions,
+  TestRunSummary,
+} from "../types/index.js";
+import {
+  createSkipWarning,
+  SpecSchema,
+  ValidationError,
+  validateReport,
+  validateReportFragment,
+} from "./validator.js";
+import {
+  addToTotals,
+  collectSpecProjects,
+  collectUnrunTests,
+  createIdDeduplicator,
+  createTotals,
+  hashSpec,
+  normalizeSpec,
+  summarizeTestRun,
+} from "./normalizer.js";
+import { createJsonTokenizer, type JsonPath } from "./tokenizer.js";
+import { decompressStream } from "./compression.js";
+import { upgradeSpec } from "./compat.js";
+import { readChunks, toFileError, type ReportStream } from "./input.js";
+
+/**
+ * Spec (newer format) or suite-level test (older format) read from the report,
+ * with the suites enclosing it, outermost first
+ */
+interface Fragment {
+  kind: "spec" | "test";
+  value: unknown;
+  path: JsonPath;
+  suites: Record<string, unknown>[];
+}
+
+/**
+ * Check whether a path points at a suite, i.e. an entry of the root or a suite's `suites`
+ */
+function isSuitePath(path: JsonPath): boolean {
+  const depth = path.length;
+  return (
+    depth >= 2 &&
+    path[depth - 2] === "suites" &&
+    typeof path[depth - 1] === "number" &&
+    (depth === 2 || isSuitePath(path.slice(0, depth - 2)))
+  );
+}
+
+/**
+ * Classify the value at a path as a suite, spec or suite-level test
+ */
+function classifyPath(path: JsonPath): "suite" | Fragment["kind"] | undefined {
+  if (isSuitePath(path)) return "suite";
+
+  const depth = path.length;
+  if (typeof path[depth - 1] !== "number" || !isSuitePath(path.slice(0, depth - 2))) {
+    return undefined;
+  }
+  if (path[depth - 2] === "specs") return "spec";
+  if (path[depth - 2] === "tests") return "test";
+  return undefined;
+}
+
+/**
+ * Parses a Playwright JSON report incrementally, without loading it into memory.
+ * Each spec is validated, normalized and handed to `onTest` as soon as it has been
+ * read, then released, so memory is bounded by the largest spec rather than the
+ * whole report. Run-level fields such as totals and shards are returned at the end.
+ * Gzip and brotli compressed input is decompressed on the fly. Pass `"-"` to read
+ * from stdin, and a signal in the options to cancel parsing.
+ *
+ * In lenient mode, invalid specs and tests are skipped with a warning. The fields of
+ * a suite are only checked at the end, so the tests of a suite skipped for its own
+ * fields have already been emitted.
+ *
+ * Tests are emitted in report order, so IDs disambiguated with an occurrence suffix
+ * may differ from `parsePlaywrightJson` for nested suites. With `deterministicRunId`,
+ * the run ID is derived from the raw report contents and also differs.
+ *
+ * @param input - File path to JSON report, `"-"` for stdin, or a stream of its contents
+ * @param options - Test callback, normalization options and cancellation signal
+ * @returns Promise resolving to the run-level fields of the normalized run
+ *
+ * @example
+ * ```typescript
+ * const failures: NormalizedTest[] = [];
+ * const summary = await streamPlaywrightJson('./huge-results.json', {
+ *   onTest: (test) => {
+ *     if (test.status === 'failed') failures.push(test);
+ *   },
+ * });
+ * console.log(`${failures.length} of ${summary.totals.total} tests failed`);
+ * ```
+ *
+ * @throws {Error} If the file does not exist
+ * @throws {ValidationError} If JSON structure doesn't match Playwright reporter format
+ * @throws The signal's reason, typically an `AbortError`, if parsing is cancelled
+ */
+export async function streamPlaywrightJson(
+  input: string | ReportStream,
+  options: StreamParseOptions,
+): Promise<TestRunSummary> {
+  const { onTest, signal, mode = "strict", ...normalizeOptions } = options;
+  signal?.throwIfAborted();
+
+  let stream: ReportStream;
+  let label: string;
+  let name: string | undefined;
+  if (input === "-") {
+    stream = process.stdin;
+    label = "stdin";
+  } else if (typeof input === "string") {
+    stream = await openReport(input);
+    label = `file ${input}`;
+    name = input;
+  } else {
+    stream = input;
+    label = "stream";
+  }
+  const source = decompressStream(readChunks(stream, signal), label, name);
+
+  const totals = createTotals();
+  const projects = new Set<string>();
+  const deduplicate = createIdDeduplicator();
+  const specHashes: string[] = [];
+  const ready: NormalizedTest[] = [];
+  // Fragments read before the title of an enclosing suite, keyed by that suite
+  const deferred = new Map<object, Fragment[]>();
+  const warnings: ParseWarning[] = [];
+
+  // Skips invalid fragments with a warning in lenient mode
+  function validate<T>(
+    schema: z.ZodType<T>,
+    value: unknown,
+    fragment: Fragment,
+  ): T | undefined {
+    try {
+      return validateReportFragment(schema, value, fragment.path, {
+        value: fragment.value,
+        node: fragment.kind === "test" ? "suite-test" : "spec",
+      });
+    } catch (error) {
+      if (mode !== "lenient" || !(error instanceof ValidationError)) throw error;
+      warnings.push(
+        createSkipWarning(fragment.kind, fragment.path, error.issues ?? []),
+      );
+      return undefined;
+    }
+  }
+
+  function emit(fragment: Fragment): void {
+    // Titles normally precede specs, but the order of keys is not guaranteed
+    const untitled = [...fragment.suites]
+      .reverse()
+      .find((suite) => !("title" in suite));
+    if (untitled) {
+      deferred.set(untitled, [...(deferred.get(untitled) ?? []), fragment]);
+      return;
+    }
+
+    const suite = fragment.suites[fragment.suites.length - 1]!;
+    const suitePath = fragment.suites.map((s) => s.title as string).filter(Boolean);
+
+    // Tests listed directly on suites (older layout) are upgraded to specs
+    const { value } = fragment;
+    const upgraded =
+      typeof value === "object" && value !== null && !Array.isArray(value) ?
+        upgradeSpec(value as Record<string, unknown>, fragment.kind === "test")
+      : value;
+    const spec = validate(SpecSchema, upgraded, fragment);
+    if (!spec) return;
+    specHashes.push(hashSpec(spec));
+    collectSpecProjects(spec, projects);
+    collectUnrunTests(spec, fragment.path, warnings);
+
+    for (const test of normalizeSpec(spec, suite, suitePath)) {
+      deduplicate(test);
+      addToTotals(totals, test);
+      ready.push(test);
+    }
+  }
+
+  const tokenizer = createJsonTokenizer((value, path, ancestors) => {
+    const kind = classifyPath(path);
+    if (kind === "suite") {
+      const fragments = deferred.get(value as object) ?? [];
+      deferred.delete(value as object);
+      fragments.forEach(emit);
+      return false;
+    }
+    if (!kind) return false;
+
+    const suites = ancestors.filter((_, depth) => isSuitePath(path.slice(0, depth)));
+    emit({ kind, value, path, suites: suites as Record<string, unknown>[] });
+    return true;
+  });
+
+  const tokenize = <T>(step: () => T): T => {
+    try {
+      return step();
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new ValidationError(`Invalid JSON in ${label}: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  const decoder = new StringDecoder("utf8");
+
+  for await (const chunk of source) {
+    const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+    tokenize(() => tokenizer.write(text));
+
+    // Hand over the tests completed by this chunk before reading the next one
+    for (const test of ready.splice(0)) {
+      signal?.throwIfAborted();
+      await onTest(test);
+    }
+  }
+  const rest = decoder.end();
+  const skeleton = tokenize(() => {
+    tokenizer.write(rest);
+    return tokenizer.end();
+  });
+
+  signal?.throwIfAborted();
+
+  // Specs have been detached, so this only validates config, stats and suite headers
+  const { report, warnings: reportWarnings } = validateReport(skeleton, mode);
+  const summary = summarizeTestRun(
+    report,
+    totals,
+    projects,
+    normalizeOptions,
+    specHashes,
+  );
+  return {
+    ...summary,
+    warnings: [...warnings, ...reportWarnings, ...(summary.warnings ?? [])],
+  };
+}
+
+/**
+ * Iterates over the normalized tests of a report as they are read, without loading
+ * the report or its tests into memory. Reading pauses while the consumer is busy
+ * with a test, and breaking out of the loop stops reading. The run-level fields are
+ * the generator's return value.
+ *
+ * @param input - File path to JSON report, `"-"` for stdin, or a stream of its contents
+ * @param options - Normalization options, e.g. a caller-provided runId, and a
+ * cancellation signal
+ * @returns Async generator yielding normalized tests in report order
+ *
+ * @example
+ * ```typescript
+ * for await (const test of iterateTests('./huge-results.json')) {
+ *   await db.insert(test);
+ * }
+ * ```
+ *
+ * @throws {Error} If the file does not exist
+ * @throws {ValidationError} If JSON structure doesn't match Playwright reporter format
+ */
+export async function* iterateTests(
+  input: string | ReportStream,
+  options: ParseOptions = {},
+): AsyncGenerator<NormalizedTest, TestRunSummary, undefined> {
+  const pending: NormalizedTest[] = [];
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+  let summary: TestRunSummary | undefined;
+  // Wakes the consumer when a test arrives or parsing ends
+  let notify: (() => void) | undefined;
+  // Lets the parser continue (or stop) once the consumer has taken a test
+  let release: ((stop: boolean) => void) | undefined;
+
+  const wake = (): void => {
+    notify?.();
+    notify = undefined;
+  };
+
+  const parsing = streamPlaywrightJson(input, {
+    ...options,
+    onTest: (test): Promise<void> => {
+      pending.push(test);
+      wake();
+      return new Promise<void>((resolve, reject) => {
+        release = (stop): void =>
+          stop ? reject(new Error("Iteration stopped")) : resolve();
+      });
+    },
+  })
+    .then(
+      (result) => {
+        summary = result;
+      },
+      (error: unknown) => {
+        failure = { error };
+      },
+    )
+    .finally(() => {
+      finished = true;
+      wake();
+    });
+
+  try {
+    for (;;) {
+      const test = pending.shift();
+      if (test) {
+        yield test;
+        release?.(false);
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+    }
+  } finally {
+    // Stop reading when the consumer breaks out early
+    if (!finished) {
+      release?.(true);
+      await parsing;
+    }
+  }
+
+  if (failure) throw failure.error;
+  return summary!;
+}
+
+/**
+ * Creates an object-mode Readable emitting the normalized tests of a report,
+ * for use with stream.pipeline().
+ *
+ * @param input - File path to JSON report, `"-"` for stdin, or a stream of its contents
+ * @param options - Normalization options, e.g. a caller-provided runId, and a
+ * cancellation signal
+ * @returns Object-mode Readable of normalized tests
+ *
+ * @example
+ * ```typescript
+ * await pipeline(createTestStream('./results.json'), databaseWriter);
+ * ```
+ */
+export function createTestStream(
+  input: string | ReportStream,
+  options: ParseOptions = {},
+): Readable {
+  return Readable.from(iterateTests(input, options));
+}
+
+/**
+ * Creates a Duplex that takes the raw bytes of a report on its writable side and
+ * emits normalized tests in object mode on its readable side, for use with
+ * stream.pipeline().
+ *
+ * @param options - Normalization options, e.g. a caller-provided runId, and a
+ * cancellation signal
+ * @returns Duplex from report bytes to normalized tests
+ *
+ * @example
+ * ```typescript
+ * await pipeline(
+ *   fs.createReadStream('./results.json'),
+ *   createTestTransform(),
+ *   databaseWriter,
+ * );
+ * ```
+ */
+export function createTestTransform(options: ParseOptions = {}): Duplex {
+  return Duplex.from(async function* (
+    source: AsyncIterable<string | Buffer>,
+  ): AsyncGenerator<NormalizedTest, void, undefined> {
+    yield* iterateTests(source, options);
+  });
+}
+
+/**
+ * Open a report file for streaming
+ */
+async function openReport(path: string): Promise<AsyncIterable<Buffer>> {
+  try {
+    const handle = await fs.open(path, "r");
+    return handle.createReadStream();
+  } catch (error) {
+    throw toFileError(error, path);
+  }
+}
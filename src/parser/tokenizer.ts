@@ -0,0 +1,244 @@
+/**
+ * Incremental JSON tokenizer for reports too large to hold in memory
+ */
+
+/**
+ * Location of a value in the document, as object keys and array indices
+ */
+export type JsonPath = Array<string | number>;
+
+/**
+ * Called when an object or array has been fully read.
+ * `ancestors` holds the enclosing containers, outermost first; they are still being
+ * read, so only the entries before this value are present. Returning true detaches
+ * the value from its parent so it can be garbage collected once handled.
+ */
+export type ContainerHandler = (
+  value: unknown,
+  path: JsonPath,
+  ancestors: unknown[],
+) => boolean;
+
+/**
+ * Incremental JSON tokenizer fed with consecutive chunks of a document
+ */
+export interface JsonTokenizer {
+  /** Consume the next chunk of the document */
+  write(chunk: string): void;
+  /** Finish the document and return its root value, minus detached containers */
+  end(): unknown;
+}
+
+/**
+ * Container being read, with the key it will be stored under in its parent
+ */
+interface Frame {
+  value: Record<string, unknown> | unknown[];
+  key: string | number | undefined;
+  pendingKey?: string;
+  nextIndex: number;
+}
+
+type State =
+  | "value"
+  | "valueOrEnd"
+  | "keyOrEnd"
+  | "key"
+  | "colon"
+  | "commaOrEnd"
+  | "string"
+  | "primitive"
+  | "done";
+
+const WHITESPACE = new Set([" ", "\t", "\n", "\r"]);
+const PRIMITIVE_START = /[-0-9tfn]/;
+const PRIMITIVE_CHAR = /[-+.0-9a-zA-Z]/;
+
+/**
+ * Creates a tokenizer that builds the document incrementally, handing every completed
+ * object and array to `onContainer` before attaching it to its parent. Detaching
+ * large repeated values (such as specs) keeps memory bounded by the largest of them
+ * rather than by the whole document.
+ *
+ * @param onContainer - Handler for completed objects and arrays
+ * @returns Tokenizer to feed with chunks of the document
+ * @throws SyntaxError if the document is not valid JSON
+ */
+export function createJsonTokenizer(onContainer?: ContainerHandler): JsonTokenizer {
+  const stack: Frame[] = [];
+  let state: State = "value";
+  let root: unknown;
+  let token = "";
+  let stringIsKey = false;
+  let escaped = false;
+  let position = 0;
+
+  function fail(message: string): never {
+    throw new SyntaxError(`${message} in JSON at position ${position}`);
+  }
+
+  function currentPath(key: string | number): JsonPath {
+    const path: JsonPath = [];
+    for (const frame of stack.slice(1)) path.push(frame.key!);
+    if (stack.length > 0) path.push(key);
+    return path;
+  }
+
+  function completeValue(value: unknown, isContainer: boolean): void {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      if (isContainer) onContainer?.(value, [], []);
+      root = value;
+      state = "done";
+      return;
+    }
+
+    const key = Array.isArray(parent.value) ? parent.nextIndex++ : parent.pendingKey!;
+    const detached =
+      isContainer &&
+      onContainer?.(
+        value,
+        currentPath(key),
+        stack.map((frame) => frame.value),
+      ) === true;
+
+    if (!detached) {
+      if (Array.isArray(parent.value)) parent.value.push(value);
+      else parent.value[key] = value;
+    }
+    state = "commaOrEnd";
+  }
+
+  function openContainer(value: Frame["value"]): void {
+    const parent = stack[stack.length - 1];
+    const key =
+      !parent ? undefined
+      : Array.isArray(parent.value) ? parent.nextIndex
+      : parent.pendingKey;
+    stack.push({ value, key, nextIndex: 0 });
+    state = Array.isArray(value) ? "valueOrEnd" : "keyOrEnd";
+  }
+
+  function closeContainer(char: string): void {
+    const frame = stack[stack.length - 1]!;
+    if ((char === "]") !== Array.isArray(frame.value)) fail(`Unexpected token ${char}`);
+    stack.pop();
+    completeValue(frame.value, true);
+  }
+
+  function completeString(): void {
+    const value = JSON.parse(`"${token}"`) as string;
+    token = "";
+    if (stringIsKey) {
+      stack[stack.length - 1]!.pendingKey = value;
+      state = "colon";
+    } else {
+      completeValue(value, false);
+    }
+  }
+
+  function completePrimitive(): void {
+    let value: unknown;
+    try {
+      value = JSON.parse(token);
+    } catch {
+      fail(`Unexpected token ${token}`);
+    }
+    token = "";
+    completeValue(value, false);
+  }
+
+  /** Read string contents up to the closing quote, returning the next index */
+  function readString(chunk: string, start: number): number {
+    for (let i = start; i < chunk.length; i++) {
+      if (escaped) {
+        escaped = false;
+        continue;
+      }
+      const char = chunk[i];
+      if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        token += chunk.slice(start, i);
+        completeString();
+        return i + 1;
+      }
+    }
+    token += chunk.slice(start);
+    return chunk.length;
+  }
+
+  /** Read the characters of a number or literal, returning the next index */
+  function readPrimitive(chunk: string, start: number): number {
+    let i = start;
+    while (i < chunk.length && PRIMITIVE_CHAR.test(chunk[i]!)) i++;
+    token += chunk.slice(start, i);
+    if (i < chunk.length) completePrimitive();
+    return i;
+  }
+
+  /** Handle a structural character, returning false if it starts a primitive */
+  function readStructure(char: string): boolean {
+    switch (state) {
+      case "value":
+      case "valueOrEnd":
+        if (char === "]" && state === "valueOrEnd") closeContainer(char);
+        else if (char === "{") openContainer({});
+        else if (char === "[") openContainer([]);
+        else if (char === '"') {
+          stringIsKey = false;
+          state = "string";
+        } else if (PRIMITIVE_START.test(char)) {
+          state = "primitive";
+          return false;
+        } else fail(`Unexpected token ${char}`);
+        break;
+      case "keyOrEnd":
+      case "key":
+        if (char === "}" && state === "keyOrEnd") closeContainer(char);
+        else if (char === '"') {
+          stringIsKey = true;
+          state = "string";
+        } else fail(`Unexpected token ${char}`);
+        break;
+      case "colon":
+        if (char !== ":") fail(`Unexpected token ${char}`);
+        state = "value";
+        break;
+      case "commaOrEnd":
+        if (char === ",") {
+          state = Array.isArray(stack[stack.length - 1]!.value) ? "value" : "key";
+        } else if (char === "}" || char === "]") closeContainer(char);
+        else fail(`Unexpected token ${char}`);
+        break;
+      default:
+        fail(`Unexpected non-whitespace character ${char} after JSON`);
+    }
+    return true;
+  }
+
+  function write(chunk: string): void {
+    let i = 0;
+    while (i < chunk.length) {
+      const start = i;
+      if (state === "string") {
+        i = readString(chunk, i);
+      } else if (state === "primitive") {
+        i = readPrimitive(chunk, i);
+      } else {
+        const char = chunk[i]!;
+        // Primitives are read from their first character onwards
+        if (WHITESPACE.has(char) || readStructure(char)) i++;
+      }
+      position += i - start;
+    }
+  }
+
+  function end(): unknown {
+    if (state === "primitive" && stack.length === 0) completePrimitive();
+    if (state !== "done") fail("Unexpected end of JSON input");
+    return root;
+  }
+
+  return { write, end };
+}
@@ -4,6 +4,17 @@
  */
 
 import { z } from "zod";
+import type {
+  ParseOptions,
+  ParseWarning,
+  ValidationDiagnostic,
+} from "../types/index.js";
+import {
+  toOriginalPath,
+  upgradeReport,
+  upgradeSpec,
+  type LayoutNode,
+} from "./compat.js";
 
 /**
  * Schema for test location information
@@ -21,6 +32,8 @@ const ErrorSchema = z.object({
   message: z.string().optional(),
   stack: z.string().optional(),
   value: z.string().optional(),
+  snippet: z.string().optional(),
+  location: LocationSchema.optional(),
 });
 
 /**
@@ -118,7 +131,7 @@ const TestSchema = z.object({
 /**
  * Schema for test spec (represents a single test)
  */
-const SpecSchema = z.object({
+export const SpecSchema = z.object({
   title: z.string(),
   ok: z.boolean(),
   tags: z.array(z.string()).optional(),
@@ -141,11 +154,21 @@ interface TestSuite {
   column?: number;
   suites?: TestSuite[];
   specs?: z.infer<typeof SpecSchema>[];
-  tests?: z.infer<typeof TestSchema>[];
 }
 
 /**
- * Schema for test suite (recursive, contains specs and/or other suites)
+ * Schema for the fields of a test suite other than its children
+ */
+const SuiteHeaderSchema = z.object({
+  title: z.string(),
+  file: z.string().optional(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+});
+
+/**
+ * Schema for test suite (recursive, contains specs and/or other suites).
+ * Tests listed directly on suites by older versions are upgraded to specs first.
  */
 const SuiteSchema: z.ZodType<TestSuite> = z.lazy(() =>
   z.object({
@@ -155,7 +178,6 @@ const SuiteSchema: z.ZodType<TestSuite> = z.lazy(() =>
     column: z.number().optional(),
     suites: z.array(SuiteSchema).optional(),
     specs: z.array(SpecSchema).optional(),
-    tests: z.array(TestSchema).optional(),
   }),
 );
 
@@ -173,6 +195,8 @@ const ProjectSchema = z.object({
   outputDir: z.string().optional(),
   repeatEach: z.number().optional(),
   retries: z.number().optional(),
+  dependencies: z.array(z.string()).optional(),
+  teardown: z.string().optional(),
   use: z.any().optional(),
 });
 
@@ -227,6 +251,8 @@ const StatsSchema = z.object({
  */
 const ErrorDetailsSchema = z.object({
   message: z.string(),
+  stack: z.string().optional(),
+  snippet: z.string().optional(),
   location: LocationSchema.optional(),
 });
 
@@ -245,32 +271,502 @@ export const PlaywrightJsonSchema = z.object({
  */
 export type PlaywrightJsonReport = z.infer<typeof PlaywrightJsonSchema>;
 
+const MAX_EXCERPT_LENGTH = 60;
+const MAX_MESSAGE_ISSUES = 3;
+
 /**
  * Validation error class
  */
 export class ValidationError extends Error {
+  /** Location, expected and actual type of each issue, in issue order */
+  public readonly diagnostics: ValidationDiagnostic[];
+
   constructor(
     message: string,
     public readonly issues?: z.ZodIssue[],
+    diagnostics?: ValidationDiagnostic[],
   ) {
     super(message);
     this.name = "ValidationError";
+    this.diagnostics =
+      diagnostics ?? (issues ?? []).map((issue) => describeIssue(issue));
+  }
+
+  /**
+   * Formats the error for terminal output, with one block per issue giving its
+   * JSON path, expected and actual type, and an excerpt of the value.
+   *
+   * @returns Multi-line description of the error
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await parsePlaywrightJson('./results.json');
+   * } catch (error) {
+   *   if (error instanceof ValidationError) console.error(error.format());
+   * }
+   * ```
+   */
+  format(): string {
+    if (this.diagnostics.length === 0) return `${this.name}: ${this.message}`;
+
+    const count = this.diagnostics.length;
+    const blocks = this.diagnostics.map((diagnostic) => {
+      const lines = [`  ✖ ${diagnostic.path}`, `    ${diagnostic.message}`];
+      if (diagnostic.expected) lines.push(`    expected: ${diagnostic.expected}`);
+      if (diagnostic.received) {
+        const value = diagnostic.value === undefined ? "" : ` ${diagnostic.value}`;
+        lines.push(`    received: ${diagnostic.received}${value}`);
+      }
+      return lines.join("\n");
+    });
+    return [
+      `${this.name}: Invalid Playwright JSON report (${count} issue${count === 1 ? "" : "s"})`,
+      ...blocks,
+    ].join("\n\n");
   }
 }
 
 /**
- * Validate Playwright JSON report
+ * Get the value at a path, or undefined where the path leaves the data
+ */
+function valueAt(data: unknown, path: readonly PropertyKey[]): unknown {
+  let value = data;
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<PropertyKey, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Name the type of a value the way zod names expected types
+ */
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Summarize a value in a short line: primitives as JSON, containers by their shape
+ */
+function excerptValue(value: unknown): string {
+  if (Array.isArray(value))
+    return `[${value.length} item${value.length === 1 ? "" : "s"}]`;
+  if (typeof value === "object" && value !== null) {
+    const keys = Object.keys(value);
+    const shown = keys.slice(0, 4).join(", ");
+    return keys.length > 4 ? `{ ${shown}, ... }` : `{ ${shown} }`;
+  }
+
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_EXCERPT_LENGTH ?
+      `${text.slice(0, MAX_EXCERPT_LENGTH - 3)}...`
+    : text;
+}
+
+/**
+ * Describe an issue, with the offending value if the validated data is known.
+ * `basePath` is the location of the data in the report, which issue paths include.
+ */
+function describeIssue(
+  issue: z.ZodIssue,
+  data?: { value: unknown; basePath: readonly PropertyKey[] },
+): ValidationDiagnostic {
+  const diagnostic: ValidationDiagnostic = {
+    path: formatJsonPath(issue.path),
+    message: issue.message,
+  };
+  if (issue.code === "invalid_type") {
+    diagnostic.expected = issue.expected;
+  } else if (issue.code === "invalid_value") {
+    diagnostic.expected = issue.values
+      .map((value) => JSON.stringify(value))
+      .join(" | ");
+  }
+
+  if (data) {
+    const value = valueAt(data.value, issue.path.slice(data.basePath.length));
+    diagnostic.received = describeType(value);
+    if (value !== undefined) diagnostic.value = excerptValue(value);
+  }
+  return diagnostic;
+}
+
+/**
+ * Create the ValidationError for issues found in data at a location in the report.
+ * The message names the first few issues and where they are.
+ */
+function createValidationError(
+  issues: z.ZodIssue[],
+  value: unknown,
+  basePath: readonly PropertyKey[] = [],
+): ValidationError {
+  const diagnostics = issues.map((issue) => describeIssue(issue, { value, basePath }));
+  const shown = diagnostics
+    .slice(0, MAX_MESSAGE_ISSUES)
+    .map((diagnostic) => `${diagnostic.message} at ${diagnostic.path}`);
+  if (diagnostics.length > MAX_MESSAGE_ISSUES) {
+    shown.push(`and ${diagnostics.length - MAX_MESSAGE_ISSUES} more`);
+  }
+  return new ValidationError(
+    `Invalid Playwright JSON report: ${shown.join(", ")}`,
+    issues,
+    diagnostics,
+  );
+}
+
+/**
+ * Point the issues of an upgraded value at the same values before the upgrade
+ */
+function toOriginalIssues(
+  issues: readonly z.ZodIssue[],
+  original: unknown,
+  node: LayoutNode,
+): z.ZodIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    path: toOriginalPath(original, issue.path, node),
+  }));
+}
+
+/**
+ * Validate Playwright JSON report, upgrading older layouts first. Issues are
+ * reported where they are in the report as written.
  */
 export function validatePlaywrightJson(data: unknown): PlaywrightJsonReport {
-  try {
-    return PlaywrightJsonSchema.parse(data);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new ValidationError(
-        `Invalid Playwright JSON report: ${error.issues.map((e: z.ZodIssue) => e.message).join(", ")}`,
-        error.issues,
+  // Reports of older versions are upgraded to the layout the schema describes
+  const { report } = upgradeReport(data);
+  const result = PlaywrightJsonSchema.safeParse(report);
+  if (result.success) return result.data;
+  throw createValidationError(
+    toOriginalIssues(result.error.issues, data, "report"),
+    data,
+  );
+}
+
+/**
+ * Validate a fragment of a report (e.g. a single spec) against one of the report
+ * schemas. Issue paths are prefixed with the fragment's location in the report.
+ * `original` is the fragment as written when `data` was upgraded from it, so that
+ * issues point at the values in the report.
+ */
+export function validateReportFragment<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  path: PropertyKey[],
+  original?: { value: unknown; node: LayoutNode },
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  const issues =
+    original ?
+      toOriginalIssues(result.error.issues, original.value, original.node)
+    : result.error.issues;
+  throw createValidationError(
+    prefixIssues(issues, path),
+    original ? original.value : data,
+    path,
+  );
+}
+
+/**
+ * Format a path into a report as a JSON path, e.g. `$.suites[0].specs[2].title`
+ */
+export function formatJsonPath(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === "number") return `${result}[${key}]`;
+    const name = String(key);
+    return /^[A-Za-z_$][\w$]*$/.test(name) ?
+        `${result}.${name}`
+      : `${result}[${JSON.stringify(name)}]`;
+  }, "$");
+}
+
+/**
+ * Describe a value skipped in lenient mode by the issues that made it invalid.
+ * Issue paths are expected to start at the report root.
+ */
+export function createSkipWarning(
+  kind: string,
+  path: readonly PropertyKey[],
+  issues: readonly z.ZodIssue[],
+): ParseWarning {
+  const reasons = issues.map(
+    (issue) => `${issue.message} at ${formatJsonPath(issue.path)}`,
+  );
+  return {
+    path: formatJsonPath(path),
+    message: `Skipped invalid ${kind}: ${reasons.join("; ")}`,
+  };
+}
+
+/**
+ * Check for a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Prefix the paths of validation issues with the location of the validated value
+ */
+function prefixIssues(
+  issues: readonly z.ZodIssue[],
+  path: readonly PropertyKey[],
+): z.ZodIssue[] {
+  return issues.map((issue) => ({ ...issue, path: [...path, ...issue.path] }));
+}
+
+/**
+ * Validate a value, skipping it with a warning when it is invalid
+ */
+function salvageValue<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+  kind: string,
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+): T | undefined {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+  warnings.push(createSkipWarning(kind, path, prefixIssues(result.error.issues, path)));
+  return undefined;
+}
+
+/**
+ * Salvage the valid items of an optional array, skipping invalid ones with a warning
+ */
+function salvageArray<T>(
+  value: unknown,
+  kind: string,
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+  salvageItem: (item: unknown, path: PropertyKey[]) => T | undefined,
+): T[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    warnings.push({
+      path: formatJsonPath(path),
+      message: `Skipped invalid ${kind} list: expected array, received ${typeof value}`,
+    });
+    return undefined;
+  }
+
+  return value
+    .map((item, index) => salvageItem(item, [...path, index]))
+    .filter((item): item is T => item !== undefined);
+}
+
+/**
+ * Salvage a suite whose own fields are valid, keeping its valid children
+ */
+function salvageSuite(
+  value: unknown,
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+): TestSuite | undefined {
+  const header = salvageValue(SuiteHeaderSchema, value, "suite", path, warnings);
+  if (!header) return undefined;
+
+  const record = value as Record<string, unknown>;
+  const suite: TestSuite = header;
+  const suites = salvageArray(
+    record.suites,
+    "suite",
+    [...path, "suites"],
+    warnings,
+    (item, itemPath) => salvageSuite(item, itemPath, warnings),
+  );
+  const specs = salvageArray(
+    record.specs,
+    "spec",
+    [...path, "specs"],
+    warnings,
+    (item, itemPath) => salvageSpec(item, "spec", itemPath, warnings),
+  );
+  // Tests listed on the suite (older layout) follow its specs, as when upgrading
+  const tests = salvageArray(
+    record.tests,
+    "test",
+    [...path, "tests"],
+    warnings,
+    (item, itemPath) => salvageSpec(item, "suite-test", itemPath, warnings),
+  );
+
+  if (suites) suite.suites = suites;
+  if (specs || tests) suite.specs = [...(specs ?? []), ...(tests ?? [])];
+  return suite;
+}
+
+/**
+ * Salvage a spec, or a test listed on a suite (older layout) upgraded to a spec,
+ * skipping it with a warning that points at the values as written
+ */
+function salvageSpec(
+  value: unknown,
+  node: "spec" | "suite-test",
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+): z.infer<typeof SpecSchema> | undefined {
+  const upgraded = isRecord(value) ? upgradeSpec(value, node === "suite-test") : value;
+  const result = SpecSchema.safeParse(upgraded);
+  if (result.success) return result.data;
+
+  const issues = toOriginalIssues(result.error.issues, value, node);
+  warnings.push(
+    createSkipWarning(
+      node === "spec" ? "spec" : "test",
+      path,
+      prefixIssues(issues, path),
+    ),
+  );
+  return undefined;
+}
+
+/**
+ * Drop the invalid fields of an object until it matches the schema, warning about
+ * each. Returns undefined when an invalid field cannot be dropped because the
+ * schema requires it.
+ */
+function dropInvalidFields<S extends z.ZodObject>(
+  schema: S,
+  value: Record<string, unknown>,
+  kind: string,
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+): z.infer<S> | undefined {
+  const fields = { ...value };
+  for (;;) {
+    const result = schema.safeParse(fields);
+    if (result.success) return result.data;
+
+    let dropped = false;
+    for (const issue of result.error.issues) {
+      const key = issue.path[0];
+      if (typeof key !== "string" || !(key in fields)) continue;
+      // Required fields cannot be dropped
+      if (!schema.shape[key]?.safeParse(undefined).success) continue;
+      delete fields[key];
+      dropped = true;
+      warnings.push({
+        path: formatJsonPath([...path, key]),
+        message: `Dropped invalid ${kind} field: ${issue.message} at ${formatJsonPath([...path, ...issue.path])}`,
+      });
+    }
+    if (!dropped) {
+      warnings.push(
+        createSkipWarning(kind, path, prefixIssues(result.error.issues, path)),
       );
+      return undefined;
     }
-    throw error;
   }
 }
+
+/**
+ * Salvage a project of the config by dropping its invalid optional fields
+ */
+function salvageProject(
+  value: unknown,
+  path: PropertyKey[],
+  warnings: ParseWarning[],
+): z.infer<typeof ProjectSchema> | undefined {
+  if (!isRecord(value))
+    return salvageValue(ProjectSchema, value, "project", path, warnings);
+  return dropInvalidFields(ProjectSchema, value, "project", path, warnings);
+}
+
+/**
+ * Salvage the config by dropping its invalid fields, which are all optional, and
+ * its invalid projects
+ */
+function salvageConfig(
+  value: unknown,
+  warnings: ParseWarning[],
+): z.infer<typeof ConfigSchema> {
+  if (!isRecord(value)) {
+    warnings.push({
+      path: "$.config",
+      message: "Dropped invalid config: expected object",
+    });
+    return {};
+  }
+
+  const fields = { ...value };
+  if (fields.projects !== undefined) {
+    // A project with an odd field must not take the other projects down with it
+    fields.projects = salvageArray(
+      fields.projects,
+      "project",
+      ["config", "projects"],
+      warnings,
+      (item, path) => salvageProject(item, path, warnings),
+    );
+  }
+  return dropInvalidFields(ConfigSchema, fields, "config", ["config"], warnings) ?? {};
+}
+
+/**
+ * Validates a Playwright JSON report leniently, keeping every valid suite and spec.
+ * Invalid suites, specs, projects, report errors and stats are skipped and invalid
+ * config and project fields dropped, each with a warning giving its JSON path. Reports of older
+ * Playwright versions are upgraded to the current layout first.
+ *
+ * @param data - Parsed JSON report
+ * @returns Validated report and warnings for everything that was skipped
+ * @throws {ValidationError} If the data is not an object, so nothing can be salvaged
+ *
+ * @example
+ * ```typescript
+ * const { report, warnings } = salvagePlaywrightJson(json);
+ * warnings.forEach((w) => console.warn(`${w.path}: ${w.message}`));
+ * ```
+ */
+export function salvagePlaywrightJson(data: unknown): {
+  report: PlaywrightJsonReport;
+  warnings: ParseWarning[];
+} {
+  const { report: upgraded } = upgradeReport(data);
+  const parsed = PlaywrightJsonSchema.safeParse(upgraded);
+  if (parsed.success) return { report: parsed.data, warnings: [] };
+  if (!isRecord(data)) return { report: validatePlaywrightJson(data), warnings: [] };
+
+  // Salvaging follows the report as written, upgrading each spec on its own
+  const warnings: ParseWarning[] = [];
+  const report: PlaywrightJsonReport = {
+    config: salvageConfig(data.config, warnings),
+    suites:
+      salvageArray(data.suites, "suite", ["suites"], warnings, (item, path) =>
+        salvageSuite(item, path, warnings),
+      ) ?? [],
+  };
+
+  const errors = salvageArray(
+    data.errors,
+    "error",
+    ["errors"],
+    warnings,
+    (item, path) => salvageValue(ErrorDetailsSchema, item, "error", path, warnings),
+  );
+  if (errors) report.errors = errors;
+
+  if (data.stats !== undefined) {
+    const stats = salvageValue(StatsSchema, data.stats, "stats", ["stats"], warnings);
+    if (stats) report.stats = stats;
+  }
+
+  return { report, warnings };
+}
+
+/**
+ * Validate a report strictly, or salvage its valid parts in lenient mode. Warnings
+ * list what was skipped, and are always empty in strict mode.
+ */
+export function validateReport(
+  data: unknown,
+  mode: ParseOptions["mode"] = "strict",
+): { report: PlaywrightJsonReport; warnings: ParseWarning[] } {
+  if (mode === "lenient") return salvagePlaywrightJson(data);
+  return { report: validatePlaywrightJson(data), warnings: [] };
+}
@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP archive reader for Playwright blob reports
+ */
+
+import { inflateRawSync } from "zlib";
+import { ValidationError } from "./validator.js";
+
+/**
+ * File stored in a ZIP archive
+ */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * Find the end of central directory record, which precedes an optional comment
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const minimum = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= minimum; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ValidationError("Invalid ZIP archive: end of central directory not found");
+}
+
+/**
+ * Lists the files of a ZIP archive from its central directory.
+ *
+ * @param archive - Contents of the ZIP archive
+ * @returns Entries in central directory order
+ * @throws {ValidationError} If the archive is malformed or uses ZIP64
+ */
+export function listZipEntries(archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > archive.length ||
+      archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new ValidationError("Invalid ZIP archive: corrupt central directory");
+    }
+
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const entry: ZipEntry = {
+      name: archive.toString("utf-8", offset + 46, offset + 46 + nameLength),
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      localHeaderOffset: archive.readUInt32LE(offset + 42),
+    };
+    if (
+      entry.compressedSize === ZIP64_MARKER ||
+      entry.size === ZIP64_MARKER ||
+      entry.localHeaderOffset === ZIP64_MARKER
+    ) {
+      throw new ValidationError(`ZIP64 archives are not supported (${entry.name})`);
+    }
+
+    entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Reads and decompresses a file of a ZIP archive.
+ *
+ * @param archive - Contents of the ZIP archive
+ * @param entry - Entry returned by listZipEntries
+ * @returns Decompressed file contents
+ * @throws {ValidationError} If the entry is corrupt or uses an unsupported compression method
+ */
+export function readZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (
+    offset + 30 > archive.length ||
+    archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER
+  ) {
+    throw new ValidationError(`Invalid ZIP archive: corrupt entry ${entry.name}`);
+  }
+
+  // The local header repeats the name and may carry a different extra field
+  const dataStart =
+    offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case STORED:
+      return data;
+    case DEFLATED:
+      try {
+        return inflateRawSync(data);
+      } catch (error) {
+        throw new ValidationError(
+          `Invalid ZIP archive: cannot inflate ${entry.name}: ${(error as Error).message}`,
+        );
+      }
+    default:
+      throw new ValidationError(
+        `Unsupported ZIP compression method ${entry.method} for ${entry.name}`,
+      );
+  }
+}
@@ -14,6 +14,45 @@ export interface TestTotals {
   duration: number;
 }
 
+/**
+ * Origin of a stack frame
+ */
+export type StackFrameKind = "test" | "node_modules" | "playwright" | "internal";
+
+/**
+ * Single frame of a parsed error stack trace
+ */
+export interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+  function?: string;
+  kind: StackFrameKind;
+}
+
+/**
+ * Error text as reported by Playwright, including ANSI color codes
+ */
+export interface ColoredErrorText {
+  message: string;
+  stack?: string;
+  snippet?: string;
+}
+
+/**
+ * Structured details of a failed expect() assertion
+ */
+export interface AssertionDetails {
+  matcher: string;
+  subject: string;
+  negated: boolean;
+  locator?: string;
+  expected?: string;
+  received?: string;
+  callLog?: string[];
+  timeout?: number;
+}
+
 /**
  * Test error information
  */
@@ -21,8 +60,12 @@ export interface TestError {
   message: string;
   stack?: string;
   snippet?: string;
+  file?: string;
   line?: number;
   column?: number;
+  frames?: StackFrame[];
+  assertion?: AssertionDetails;
+  colored?: ColoredErrorText;
 }
 
 /**
@@ -53,6 +96,57 @@ export interface ShardInfo {
   testCount: number;
 }
 
+/**
+ * Status of a single test attempt as reported by Playwright
+ */
+export type AttemptStatus =
+  | "passed"
+  | "failed"
+  | "timedOut"
+  | "skipped"
+  | "interrupted";
+
+/**
+ * Precise test outcome, distinguishing timeouts, interruptions and tests
+ * annotated with test.fail() from plain passes and failures
+ */
+export type TestOutcome =
+  | "passed"
+  | "failed"
+  | "timedOut"
+  | "interrupted"
+  | "skipped"
+  | "flaky"
+  | "expectedFailure"
+  | "unexpectedPass";
+
+/**
+ * Test step (test.step, expect, page actions, hooks) with its nested steps
+ */
+export interface NormalizedStep {
+  title: string;
+  duration: number;
+  error?: TestError;
+  steps: NormalizedStep[];
+}
+
+/**
+ * Single execution attempt of a test (initial run or retry)
+ */
+export interface NormalizedAttempt {
+  retry: number;
+  status: AttemptStatus;
+  duration: number;
+  startTime: string;
+  workerIndex: number;
+  parallelIndex?: number;
+  errors: TestError[];
+  attachments: TestAttachment[];
+  steps: NormalizedStep[];
+  stdout: string[];
+  stderr: string[];
+}
+
 /**
  * Normalized test data structure
  */
@@ -60,16 +154,84 @@ export interface NormalizedTest {
   id: string;
   title: string;
   fullTitle: string;
+  /** Titles of the enclosing suites, outermost (the file's suite) first */
+  suitePath?: string[];
   file: string;
   line: number;
   column: number;
   project: string;
   status: "passed" | "failed" | "skipped" | "flaky";
+  outcome?: TestOutcome;
   duration: number;
   retries: number;
   error?: TestError;
+  errors?: TestError[];
   attachments?: TestAttachment[];
   annotations?: TestAnnotation[];
+  tags?: string[];
+  attempts?: NormalizedAttempt[];
+}
+
+/**
+ * Test declared in a report, whether or not it ran
+ */
+export interface InventoryTest {
+  /** Same ID the test has in a normalized run of the same tests */
+  id: string;
+  title: string;
+  fullTitle: string;
+  /** Titles of the enclosing suites, outermost (the file's suite) first */
+  suitePath: string[];
+  file: string;
+  line: number;
+  column: number;
+  project: string;
+  tags: string[];
+  annotations: TestAnnotation[];
+  /** Status the test is expected to end with, `failed` for test.fail() */
+  expectedStatus: "passed" | "failed" | "timedOut" | "skipped";
+  timeout: number;
+}
+
+/**
+ * Tests declared in a report, e.g. from `playwright test --list --reporter=json`
+ */
+export interface TestInventory {
+  projects: string[];
+  tests: InventoryTest[];
+  warnings?: ParseWarning[];
+  /** Playwright version that wrote the report, if recorded */
+  playwrightVersion?: string;
+}
+
+/**
+ * Effective configuration of a project, with Playwright's defaults for settings the
+ * report leaves out.
+ *
+ * The JSON reporter does not write a project's `use` options or dependencies, so for
+ * JSON reports `browserName`, `channel`, `viewport` and `isMobile` are missing and
+ * `dependencies` is empty even when the project has some. Blob reports record
+ * dependencies, but not the browser options of `use` either. The browser fields are
+ * only filled in for reports whose projects carry `use`, e.g. built by other tools.
+ */
+export interface ProjectConfig {
+  name: string;
+  /** Timeout of each test in milliseconds, 0 for no timeout */
+  timeout: number;
+  /** Retries allowed for a failing test */
+  retries: number;
+  /** Times each test is run */
+  repeatEach: number;
+  /** Browser from `use.browserName`, or the browser of the device descriptor */
+  browserName?: string;
+  /** Browser channel from `use.channel`, e.g. `chrome` or `msedge` */
+  channel?: string;
+  viewport?: { width: number; height: number } | null;
+  isMobile?: boolean;
+  /** Projects that run before this one, empty when the report does not record them */
+  dependencies: string[];
+  testDir?: string;
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -84,7 +246,138 @@ export interface NormalizedTestRun {
   shards?: ShardInfo[];
   totals: TestTotals;
   tests: NormalizedTest[];
+  errors?: TestError[];
   metadata?: Record<string, unknown>;
+  warnings?: ParseWarning[];
+  /** Playwright version that wrote the report, if recorded */
+  playwrightVersion?: string;
+  /** Configuration of each project in the report's config, keyed by project name */
+  projectConfigs?: Record<string, ProjectConfig>;
+}
+
+/**
+ * Playwright version and layout of a report
+ */
+export interface ReportFormat {
+  /** Playwright version from `config.version`, missing in reports of older releases */
+  version?: string;
+  /** Names of the adapters that upgrade the report to the current layout */
+  adapters: string[];
+}
+
+/**
+ * Problem found in a report that did not stop it from being parsed
+ */
+export interface ParseWarning {
+  /** JSON path of the affected value, e.g. `$.suites[0].specs[2]` */
+  path: string;
+  /** What was skipped or dropped, and why */
+  message: string;
+}
+
+/**
+ * Location and details of one schema mismatch in a report
+ */
+export interface ValidationDiagnostic {
+  /** JSON path of the offending value, e.g. `$.suites[3].specs[0].tests[1]` */
+  path: string;
+  message: string;
+  /** Expected type or values, e.g. `number` or `"passed" | "failed"` */
+  expected?: string;
+  /** Actual type of the value, e.g. `string` or `undefined` for a missing field */
+  received?: string;
+  /** Short excerpt of the offending value */
+  value?: string;
+}
+
+/**
+ * Run-level fields of a normalized test run, produced without holding its tests
+ */
+export type TestRunSummary = Omit<NormalizedTestRun, "tests">;
+
+/**
+ * Options controlling how a report is normalized
+ */
+export interface NormalizeOptions {
+  /**
+   * Run ID to assign, e.g. a CI build number. Takes precedence over deterministicRunId.
+   */
+  runId?: string;
+  /**
+   * Derive the run ID from the report's start time, config and contents instead of
+   * generating a random UUID, so parsing the same report twice yields the same ID.
+   */
+  deterministicRunId?: boolean;
+}
+
+/**
+ * Options for parsing a report
+ */
+export interface ParseOptions extends NormalizeOptions {
+  /**
+   * How to handle parts of a report that don't match the schema. `strict` (the
+   * default) throws a ValidationError. `lenient` skips invalid suites, specs and
+   * tests, drops invalid config fields, and lists what was skipped in `warnings`.
+   */
+  mode?: "strict" | "lenient";
+  /**
+   * Signal to cancel parsing. The parse rejects with the signal's reason, and
+   * reading a file or stream stops without waiting for it to finish.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for reading the test inventory of a report
+ */
+export type InventoryOptions = Pick<ParseOptions, "mode" | "signal">;
+
+/**
+ * Options for parsing a report as a stream
+ */
+export interface StreamParseOptions extends ParseOptions {
+  /**
+   * Called with each normalized test once its spec has been read. Reading pauses
+   * until a returned promise settles.
+   */
+  onTest: (test: NormalizedTest) => void | Promise<void>;
+}
+
+/**
+ * Options for parsing a directory or glob of reports. A caller-provided runId is not
+ * accepted, as it would be shared by every execution; use deterministicRunId for IDs
+ * that are stable across calls.
+ */
+export interface ParseReportsOptions extends Omit<ParseOptions, "runId"> {
+  /**
+   * Maximum number of reports parsed at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+}
+
+/**
+ * Runs of one test execution, aggregated across its shards
+ */
+export interface ReportExecution {
+  /** Report files the run was aggregated from, in path order */
+  files: string[];
+  run: NormalizedTestRun;
+}
+
+/**
+ * Report file that could not be parsed
+ */
+export interface ReportFileError {
+  file: string;
+  error: Error;
+}
+
+/**
+ * Result of parsing a directory or glob of reports
+ */
+export interface ParsedReports {
+  executions: ReportExecution[];
+  errors: ReportFileError[];
 }
 
 /**
@@ -135,6 +428,7 @@ export interface PlaywrightTestResult {
  */
 export interface PlaywrightTestAttempt {
   workerIndex: number;
+  parallelIndex?: number;
   status: string;
   duration: number;
   error?: {
@@ -157,8 +451,8 @@ export interface PlaywrightTestAttempt {
       column: number;
     };
   }>;
-  stdout: string[];
-  stderr: string[];
+  stdout: Array<string | { text?: string; buffer?: string }>;
+  stderr: Array<string | { text?: string; buffer?: string }>;
   retry: number;
   startTime: string;
   attachments: Array<{
@@ -175,6 +469,7 @@ export interface PlaywrightTestAttempt {
 export interface PlaywrightSpec {
   title: string;
   ok: boolean;
+  tags?: string[];
   tests: PlaywrightTestCase[];
   id: string;
   file: string;
@@ -203,6 +498,16 @@ export interface PlaywrightJsonReport {
     metadata?: Record<string, unknown>;
   };
   suites: PlaywrightSuite[];
+  errors?: Array<{
+    message: string;
+    stack?: string;
+    snippet?: string;
+    location?: {
+      file: string;
+      line: number;
+      column: number;
+    };
+  }>;
   stats?: {
     startTime: string;
     endTime?: string;
@@ -0,0 +1,32 @@
+/**
+ * ANSI escape code utilities
+ */
+
+/**
+ * Matches ANSI escape sequences (SGR colors, cursor movement and OSC hyperlinks)
+ */
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /[\u001B\u009B][[\]()#;?]*(?:(?:(?:;[-a-zA-Z\d/#&.:=?%@~_]+)*|[a-zA-Z\d]+(?:;[-a-zA-Z\d/#&.:=?%@~_]*)*)?\u0007|(?:\d{1,4}(?:;\d{0,4})*)?[\dA-PR-TZcf-nq-uy=><~])/g;
+
+/**
+ * Removes ANSI escape codes from a string.
+ *
+ * @param text - Text that may contain terminal color codes
+ * @returns Plain text
+ *
+ * @example
+ * ```typescript
+ * stripAnsi("\u001b[31mTimed out\u001b[39m"); // "Timed out"
+ * ```
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/**
+ * Checks whether a string contains ANSI escape codes
+ */
+export function hasAnsi(text: string): boolean {
+  return stripAnsi(text) !== text;
+}
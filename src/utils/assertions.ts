@@ -0,0 +1,69 @@
+/**
+ * Assertion utilities for expect() failure messages
+ */
+
+import type { AssertionDetails } from "../types/index.js";
+
+/**
+ * Matches the matcher call, e.g. `expect(locator).not.toHaveText(expected)`
+ */
+const MATCHER_PATTERN = /expect\((\w+)\)(\.not)?\.(\w+)\(/;
+
+/**
+ * Matches `Expected:`, `Expected string:`, `Expected pattern:` and similar lines
+ */
+const EXPECTED_PATTERN = /^Expected(?: [a-z]+)?: (.*)$/m;
+const RECEIVED_PATTERN = /^Received(?: [a-z]+)?: (.*)$/m;
+const LOCATOR_PATTERN = /^Locator: (.*)$/m;
+const TIMEOUT_PATTERN = /^Timeout: (\d+)ms$|Timed out (\d+)ms/m;
+
+/**
+ * Extract the call log entries following a `Call log:` line
+ */
+function extractCallLog(message: string): string[] | undefined {
+  const lines = message.split("\n");
+  const start = lines.findIndex((line) => line.trim() === "Call log:");
+  if (start === -1) return undefined;
+
+  const callLog: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const match = /^\s*- (.*)$/.exec(line);
+    if (!match) break;
+    callLog.push(match[1]!.trim());
+  }
+  return callLog;
+}
+
+/**
+ * Parses a Playwright expect() failure message into structured details.
+ * Expects a message without ANSI codes, as found in `TestError.message`.
+ *
+ * @param message - Plain error message
+ * @returns Assertion details, or undefined if the message is not an expect() failure
+ *
+ * @example
+ * ```typescript
+ * const details = parseAssertionDetails(test.error!.message);
+ * if (details?.locator) {
+ *   console.log(`${details.matcher} on ${details.locator}`);
+ *   console.log(`Expected ${details.expected}, received ${details.received}`);
+ * }
+ * ```
+ */
+export function parseAssertionDetails(message: string): AssertionDetails | undefined {
+  const matcher = MATCHER_PATTERN.exec(message);
+  if (!matcher) return undefined;
+
+  const timeout = TIMEOUT_PATTERN.exec(message);
+
+  return {
+    matcher: matcher[3]!,
+    subject: matcher[1]!,
+    negated: matcher[2] !== undefined,
+    locator: LOCATOR_PATTERN.exec(message)?.[1]?.trim(),
+    expected: EXPECTED_PATTERN.exec(message)?.[1]?.trim(),
+    received: RECEIVED_PATTERN.exec(message)?.[1]?.trim(),
+    callLog: extractCallLog(message),
+    timeout: timeout ? Number(timeout[1] ?? timeout[2]) : undefined,
+  };
+}
@@ -2,7 +2,8 @@
  * Filter utilities for test runs
  */
 
-import type { NormalizedTestRun, NormalizedTest } from "../types/index.js";
+import type { NormalizedTestRun, NormalizedTest, TestOutcome } from "../types/index.js";
+import { normalizeTag } from "./tags.js";
 
 /**
  * Filters tests in a run based on a custom predicate function.
@@ -62,6 +63,29 @@ export function filterTests(
   };
 }
 
+/**
+ * Filters a stream of tests based on a predicate, such as one of filterPredicates.
+ *
+ * @param tests - Tests from iterateTests, or any async or sync iterable of tests
+ * @param predicate - Function that returns true for tests to include
+ * @returns Async iterable yielding only tests matching the predicate
+ *
+ * @example
+ * ```typescript
+ * for await (const test of filterTestStream(iterateTests('./results.json'), filterPredicates.failed)) {
+ *   await db.insert(test);
+ * }
+ * ```
+ */
+export async function* filterTestStream(
+  tests: AsyncIterable<NormalizedTest> | Iterable<NormalizedTest>,
+  predicate: (test: NormalizedTest) => boolean,
+): AsyncGenerator<NormalizedTest, void, undefined> {
+  for await (const test of tests) {
+    if (predicate(test)) yield test;
+  }
+}
+
 /**
  * Common filter predicates
  */
@@ -86,6 +110,32 @@ export const filterPredicates = {
    */
   flaky: (test: NormalizedTest): boolean => test.status === "flaky" || test.retries > 0,
 
+  /**
+   * Filter for tests that failed by exceeding their timeout
+   */
+  timedOut: (test: NormalizedTest): boolean => test.outcome === "timedOut",
+
+  /**
+   * Filter for tests interrupted before completing
+   */
+  interrupted: (test: NormalizedTest): boolean => test.outcome === "interrupted",
+
+  /**
+   * Filter for tests marked with test.fail() that failed as expected
+   */
+  expectedFailure: (test: NormalizedTest): boolean =>
+    test.outcome === "expectedFailure",
+
+  /**
+   * Filter by outcome (falls back to status for tests without an outcome)
+   */
+  byOutcome:
+    (outcome: TestOutcome | TestOutcome[]) =>
+    (test: NormalizedTest): boolean => {
+      const outcomes = Array.isArray(outcome) ? outcome : [outcome];
+      return outcomes.includes(test.outcome ?? test.status);
+    },
+
   /**
    * Filter for slow tests (> threshold in ms)
    */
@@ -144,6 +194,30 @@ export const filterPredicates = {
       }
       return pattern.test(test.fullTitle);
     },
+
+  /**
+   * Filter by tag (with or without the leading "@")
+   */
+  byTag:
+    (tag: string) =>
+    (test: NormalizedTest): boolean =>
+      (test.tags ?? []).includes(normalizeTag(tag)),
+
+  /**
+   * Filter for tests having at least one of the given tags
+   */
+  byAnyTag:
+    (tags: string[]) =>
+    (test: NormalizedTest): boolean =>
+      tags.some((tag) => (test.tags ?? []).includes(normalizeTag(tag))),
+
+  /**
+   * Filter for tests having all of the given tags
+   */
+  byAllTags:
+    (tags: string[]) =>
+    (test: NormalizedTest): boolean =>
+      tags.every((tag) => (test.tags ?? []).includes(normalizeTag(tag))),
 };
 
 /**
@@ -171,17 +171,24 @@ export function getTestSummary(run: NormalizedTestRun): TestSummary {
 }
 
 /**
- * Check if all tests passed
+ * Check if the run reported errors outside of tests (global setup, worker crashes)
+ */
+export function hasRunErrors(run: NormalizedTestRun): boolean {
+  return (run.errors?.length ?? 0) > 0;
+}
+
+/**
+ * Check if all tests passed and the run itself did not error
  */
 export function allTestsPassed(run: NormalizedTestRun): boolean {
-  return run.totals.failed === 0 && run.totals.total > 0;
+  return run.totals.failed === 0 && run.totals.total > 0 && !hasRunErrors(run);
 }
 
 /**
- * Check if any tests failed
+ * Check if any tests failed or the run itself errored
  */
 export function hasFailures(run: NormalizedTestRun): boolean {
-  return run.totals.failed > 0;
+  return run.totals.failed > 0 || hasRunErrors(run);
 }
 
 /**
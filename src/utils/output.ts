@@ -0,0 +1,88 @@
+/**
+ * Console output utilities for test attempts
+ */
+
+import type { NormalizedTest, NormalizedTestRun } from "../types/index.js";
+
+/**
+ * Line of console output matching a search pattern
+ */
+export interface OutputMatch {
+  test: NormalizedTest;
+  retry: number;
+  stream: "stdout" | "stderr";
+  lineNumber: number;
+  line: string;
+}
+
+/**
+ * Splits decoded output chunks into lines.
+ * Chunks are concatenated first so lines written across several chunks stay intact.
+ *
+ * @param chunks - Decoded stdout or stderr chunks of an attempt
+ * @returns Output lines without their line terminators
+ *
+ * @example
+ * ```typescript
+ * const lines = getOutputLines(test.attempts![0]!.stdout);
+ * ```
+ */
+export function getOutputLines(chunks: string[]): string[] {
+  const text = chunks.join("");
+  if (!text) return [];
+
+  const lines = text.split(/\r?\n/);
+  // A trailing newline terminates the last line rather than starting a new one
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Searches the stdout and stderr of every test attempt in a run.
+ *
+ * @param run - Normalized test run data
+ * @param pattern - Substring or RegExp to match against each output line
+ * @returns Matching lines with the test, attempt and stream they came from
+ *
+ * @example
+ * ```typescript
+ * const matches = searchOutput(testRun, /ERR_CONNECTION_REFUSED/);
+ * matches.forEach(({ test, stream, line }) => {
+ *   console.log(`${test.fullTitle} [${stream}]: ${line}`);
+ * });
+ * ```
+ */
+export function searchOutput(
+  run: NormalizedTestRun,
+  pattern: string | RegExp,
+): OutputMatch[] {
+  // Drop stateful flags so RegExp.test() does not skip lines
+  const regex =
+    typeof pattern === "string" ? undefined : (
+      new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""))
+    );
+  const matches = (line: string): boolean =>
+    regex ? regex.test(line) : line.includes(pattern as string);
+
+  const results: OutputMatch[] = [];
+
+  for (const test of run.tests) {
+    for (const attempt of test.attempts ?? []) {
+      for (const stream of ["stdout", "stderr"] as const) {
+        getOutputLines(attempt[stream] ?? []).forEach((line, index) => {
+          if (matches(line)) {
+            results.push({
+              test,
+              retry: attempt.retry,
+              stream,
+              lineNumber: index + 1,
+              line,
+            });
+          }
+        });
+      }
+    }
+  }
+
+  return results;
+}
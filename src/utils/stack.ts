@@ -0,0 +1,64 @@
+/**
+ * Stack trace utilities for test errors
+ */
+
+import type { StackFrame, StackFrameKind } from "../types/index.js";
+
+/**
+ * Matches V8 stack frame lines such as
+ * `    at async LoginPage.submit (/repo/pages/login.ts:12:9)` or `    at /repo/a.spec.ts:4:7`
+ */
+const FRAME_PATTERN = /^\s*at (?:async )?(?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+
+/**
+ * Classify the origin of a stack frame from its file path
+ */
+function classifyFrame(file: string): StackFrameKind {
+  const normalized = file.replace(/\\/g, "/");
+  if (normalized.startsWith("node:") || normalized.startsWith("internal/")) {
+    return "internal";
+  }
+  if (/\/node_modules\/(?:@playwright\/|playwright(?:-core)?\/)/.test(normalized)) {
+    return "playwright";
+  }
+  if (normalized.includes("/node_modules/")) return "node_modules";
+  return "test";
+}
+
+/**
+ * Parses a V8 stack trace into structured frames.
+ * Lines that are not stack frames (such as the error message) are skipped.
+ *
+ * @param stack - Stack trace string from a test error
+ * @returns Frames in call order (innermost first), classified by origin
+ *
+ * @example
+ * ```typescript
+ * const frames = parseStackFrames(test.error?.stack);
+ * const testFrame = frames.find((frame) => frame.kind === "test");
+ * if (testFrame) {
+ *   console.log(`${testFrame.file}:${testFrame.line}:${testFrame.column}`);
+ * }
+ * ```
+ */
+export function parseStackFrames(stack?: string): StackFrame[] {
+  if (!stack) return [];
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const match = FRAME_PATTERN.exec(line);
+    if (!match) continue;
+
+    // Strip file URLs, including the extra slash before Windows drive letters
+    const file = match[2]!.replace(/^file:\/\/(?:\/(?=[A-Za-z]:))?/, "");
+    frames.push({
+      file,
+      line: Number(match[3]),
+      column: Number(match[4]),
+      function: match[1] || undefined,
+      kind: classifyFrame(file),
+    });
+  }
+
+  return frames;
+}
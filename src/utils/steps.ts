@@ -0,0 +1,118 @@
+/**
+ * Step utilities for test attempts
+ */
+
+import type {
+  NormalizedTest,
+  NormalizedTestRun,
+  NormalizedStep,
+} from "../types/index.js";
+
+/**
+ * Step together with its position in the step tree
+ */
+export interface FlatStep {
+  step: NormalizedStep;
+  path: string[];
+  depth: number;
+}
+
+/**
+ * Step located within a test run
+ */
+export interface RunStep extends FlatStep {
+  test: NormalizedTest;
+  retry: number;
+}
+
+/**
+ * Flattens a step tree into a depth-first list.
+ * Parents are listed before their nested steps.
+ *
+ * @param steps - Root steps of a test attempt
+ * @returns Flat list of steps with their title path and depth
+ *
+ * @example
+ * ```typescript
+ * const attempt = test.attempts![0]!;
+ * for (const { path, step } of flattenSteps(attempt.steps)) {
+ *   console.log(`${path.join(" > ")}: ${step.duration}ms`);
+ * }
+ * ```
+ */
+export function flattenSteps(steps: NormalizedStep[]): FlatStep[] {
+  const flat: FlatStep[] = [];
+
+  function visit(children: NormalizedStep[], parentPath: string[]): void {
+    for (const step of children) {
+      const path = [...parentPath, step.title];
+      flat.push({ step, path, depth: parentPath.length });
+      visit(step.steps, path);
+    }
+  }
+
+  visit(steps, []);
+  return flat;
+}
+
+/**
+ * Finds the innermost failing step of a step tree.
+ * Playwright propagates errors to parent steps, so the deepest step carrying
+ * an error is the actual action or assertion that failed.
+ *
+ * @param steps - Root steps of a test attempt
+ * @returns Failing step with its title path, or undefined if no step failed
+ *
+ * @example
+ * ```typescript
+ * const lastAttempt = test.attempts![test.attempts!.length - 1]!;
+ * const failing = findFailingStep(lastAttempt.steps);
+ * if (failing) {
+ *   console.log(`Failed at: ${failing.path.join(" > ")}`);
+ * }
+ * ```
+ */
+export function findFailingStep(steps: NormalizedStep[]): FlatStep | undefined {
+  function visit(
+    children: NormalizedStep[],
+    parentPath: string[],
+  ): FlatStep | undefined {
+    for (const step of children) {
+      const path = [...parentPath, step.title];
+      const nested = visit(step.steps, path);
+      if (nested) return nested;
+      if (step.error) return { step, path, depth: parentPath.length };
+    }
+    return undefined;
+  }
+
+  return visit(steps, []);
+}
+
+/**
+ * Lists the slowest steps across all tests and attempts of a run.
+ *
+ * @param run - Normalized test run data
+ * @param limit - Maximum number of steps to return
+ * @returns Steps sorted by duration (slowest first)
+ *
+ * @example
+ * ```typescript
+ * getSlowestSteps(testRun, 5).forEach(({ test, step }) => {
+ *   console.log(`${test.fullTitle} › ${step.title}: ${step.duration}ms`);
+ * });
+ * ```
+ */
+export function getSlowestSteps(run: NormalizedTestRun, limit: number = 10): RunStep[] {
+  const steps: RunStep[] = [];
+
+  for (const test of run.tests) {
+    for (const attempt of test.attempts ?? []) {
+      for (const entry of flattenSteps(attempt.steps)) {
+        steps.push({ ...entry, test, retry: attempt.retry });
+      }
+    }
+  }
+
+  return steps.sort((a, b) => b.step.duration - a.step.duration).slice(0, limit);
+}
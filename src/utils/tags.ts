@@ -0,0 +1,73 @@
+/**
+ * Tag utilities for Playwright test tags
+ */
+
+/**
+ * Matches inline `@tag` tokens that start a title or follow whitespace,
+ * so e-mail addresses and similar strings are not picked up
+ */
+const INLINE_TAG_PATTERN = /(?:^|\s)(@[\w-]+(?:[:./][\w-]+)*)/g;
+
+/**
+ * Normalizes a tag into its canonical `@tag` form.
+ * Playwright reports tags with a leading `@`, while older versions and
+ * hand-written filters often omit it.
+ *
+ * @param tag - Raw tag value, with or without the leading `@`
+ * @returns Trimmed tag prefixed with `@`, or an empty string for blank input
+ *
+ * @example
+ * ```typescript
+ * normalizeTag("smoke"); // "@smoke"
+ * normalizeTag(" @smoke "); // "@smoke"
+ * ```
+ */
+export function normalizeTag(tag: string): string {
+  const trimmed = tag.trim();
+  if (!trimmed) return "";
+  return trimmed.startsWith("@") ? trimmed : `@${trimmed}`;
+}
+
+/**
+ * Extracts inline `@tag` tokens from a test or describe title.
+ *
+ * @param title - Title to scan
+ * @returns Tags in order of appearance
+ *
+ * @example
+ * ```typescript
+ * extractInlineTags("checkout works @smoke @payments"); // ["@smoke", "@payments"]
+ * ```
+ */
+export function extractInlineTags(title: string): string[] {
+  const tags: string[] = [];
+  for (const match of title.matchAll(INLINE_TAG_PATTERN)) {
+    tags.push(match[1]!);
+  }
+  return tags;
+}
+
+/**
+ * Collect the normalized, deduplicated tags of a test from its declared
+ * tags and the inline tags of its title path
+ */
+export function collectTags(declared: unknown, titles: string[]): string[] {
+  const tags = new Set<string>();
+
+  if (Array.isArray(declared)) {
+    for (const tag of declared) {
+      if (typeof tag !== "string") continue;
+      const normalized = normalizeTag(tag);
+      if (normalized) tags.add(normalized);
+    }
+  }
+
+  for (const title of titles) {
+    if (!title) continue;
+    for (const tag of extractInlineTags(title)) {
+      tags.add(normalizeTag(tag));
+    }
+  }
+
+  return Array.from(tags);
+}
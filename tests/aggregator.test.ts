@@ -1,12 +1,14 @@
 import { describe, it, expect } from "vitest";
 import {
   calculateStatistics,
+  calculateStreamStatistics,
   getFailedTests,
   getFlakyTests,
   getTestsByProject,
   getTestsByFile,
   aggregateShardedRuns,
   areRunsFromSameExecution,
+  buildSuiteTree,
   filterPredicates,
   sortComparators,
   combinePredicatesOr,
@@ -141,6 +143,107 @@ describe("Statistics Calculator", () => {
       expect(stats.byFile["home.spec.ts"]!.passed).toBe(1);
     });
 
+    it("should group statistics by tag", () => {
+      const tests: NormalizedTest[] = [
+        createTest({ id: "1", tags: ["@smoke", "@auth"], status: "passed" }),
+        createTest({ id: "2", tags: ["@smoke"], status: "failed" }),
+        createTest({ id: "3", tags: [], status: "passed" }),
+        createTest({ id: "4", status: "passed" }),
+      ];
+
+      const run = createTestRun(tests);
+      const stats = calculateStatistics(run);
+
+      expect(Object.keys(stats.byTag).sort()).toEqual(["@auth", "@smoke"]);
+      expect(stats.byTag["@smoke"]!.total).toBe(2);
+      expect(stats.byTag["@smoke"]!.passed).toBe(1);
+      expect(stats.byTag["@smoke"]!.failed).toBe(1);
+      expect(stats.byTag["@auth"]!.total).toBe(1);
+      expect(stats.byTag["@auth"]!.duration).toBe(100);
+    });
+
+    it("should accept an iterable of tests", () => {
+      const tests: NormalizedTest[] = [
+        createTest({ id: "1", status: "passed", duration: 100, tags: ["@smoke"] }),
+        createTest({ id: "2", status: "failed", duration: 300, project: "firefox" }),
+      ];
+
+      function* generate(): Generator<NormalizedTest> {
+        yield* tests;
+      }
+
+      expect(calculateStatistics(generate())).toEqual(
+        calculateStatistics(createTestRun(tests)),
+      );
+    });
+
+    it("should calculate the same statistics over an async stream of tests", async () => {
+      const tests: NormalizedTest[] = [
+        createTest({ id: "1", status: "passed", duration: 100, tags: ["@smoke"] }),
+        createTest({ id: "2", status: "failed", duration: 300, outcome: "timedOut" }),
+        createTest({ id: "3", status: "flaky", duration: 200, file: "b.spec.ts" }),
+      ];
+
+      async function* stream(): AsyncGenerator<NormalizedTest> {
+        yield* tests;
+      }
+
+      const stats = await calculateStreamStatistics(stream());
+
+      expect(stats).toEqual(calculateStatistics(createTestRun(tests)));
+      expect(stats.duration.median).toBe(200);
+      expect(await calculateStreamStatistics([])).toEqual(
+        calculateStatistics(createTestRun([])),
+      );
+    });
+
+    it("should count outcomes, falling back to status", () => {
+      const tests: NormalizedTest[] = [
+        createTest({ id: "1", status: "failed", outcome: "timedOut" }),
+        createTest({ id: "2", status: "failed", outcome: "failed" }),
+        createTest({ id: "3", status: "passed", outcome: "expectedFailure" }),
+        createTest({ id: "4", status: "skipped" }),
+      ];
+
+      const stats = calculateStatistics(createTestRun(tests));
+
+      expect(stats.failed).toBe(2);
+      expect(stats.byOutcome.timedOut).toBe(1);
+      expect(stats.byOutcome.failed).toBe(1);
+      expect(stats.byOutcome.expectedFailure).toBe(1);
+      expect(stats.byOutcome.skipped).toBe(1);
+      expect(stats.byOutcome.passed).toBe(0);
+    });
+
+    it("should count error occurrences across tests", () => {
+      const tests: NormalizedTest[] = [
+        createTest({
+          id: "1",
+          status: "failed",
+          errors: [
+            { message: "Error: expect(received).toBe(expected)\n\nExpected: 1" },
+            { message: "Error: expect(received).toBe(expected)\n\nExpected: 2" },
+            { message: "Error: locator.click: Timeout" },
+          ],
+        }),
+        createTest({
+          id: "2",
+          status: "failed",
+          error: { message: "Error: locator.click: Timeout" },
+        }),
+        createTest({ id: "3", status: "passed", errors: [] }),
+      ];
+
+      const stats = calculateStatistics(createTestRun(tests));
+
+      expect(stats.errors.total).toBe(4);
+      expect(stats.errors.testsWithErrors).toBe(2);
+      expect(stats.errors.byMessage).toEqual({
+        "Error: expect(received).toBe(expected)": 2,
+        "Error: locator.click: Timeout": 2,
+      });
+    });
+
     it("should return zero statistics for empty test run", () => {
       const run = createTestRun([]);
       const stats = calculateStatistics(run);
@@ -474,6 +577,37 @@ describe("Shard Aggregation and Edge Cases", () => {
       const aggregated = aggregateShardedRuns([run]);
       expect(aggregated.metadata).toBeUndefined();
     });
+
+    it("should combine the project configs of all runs", () => {
+      const config = {
+        timeout: 30000,
+        retries: 2,
+        repeatEach: 1,
+        dependencies: [],
+      };
+      const run1: NormalizedTestRun = {
+        runId: "run-1",
+        startedAt: new Date().toISOString(),
+        endedAt: new Date().toISOString(),
+        duration: 1000,
+        projects: ["chromium"],
+        totals: { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0, duration: 0 },
+        tests: [],
+        projectConfigs: { chromium: { name: "chromium", ...config } },
+      };
+      const run2: NormalizedTestRun = {
+        ...run1,
+        projects: ["chromium", "firefox"],
+        projectConfigs: {
+          chromium: { name: "chromium", ...config, retries: 0 },
+          firefox: { name: "firefox", ...config },
+        },
+      };
+
+      const aggregated = aggregateShardedRuns([run1, run2]);
+      expect(Object.keys(aggregated.projectConfigs!)).toEqual(["chromium", "firefox"]);
+      expect(aggregated.projectConfigs!.chromium!.retries).toBe(2);
+    });
   });
 
   describe("Filter Predicates Advanced", () => {
@@ -683,3 +817,104 @@ describe("Shard Aggregation and Edge Cases", () => {
     });
   });
 });
+
+describe("Suite Tree", () => {
+  const createTest = (overrides: Partial<NormalizedTest>): NormalizedTest => ({
+    id: "test-1",
+    title: "test",
+    fullTitle: "auth.spec.ts › test",
+    suitePath: ["auth.spec.ts"],
+    file: "auth.spec.ts",
+    line: 1,
+    column: 1,
+    project: "chromium",
+    status: "passed",
+    duration: 100,
+    retries: 0,
+    ...overrides,
+  });
+
+  const createRun = (tests: NormalizedTest[]): NormalizedTestRun => ({
+    runId: "run-1",
+    startedAt: "2024-01-01T10:00:00.000Z",
+    endedAt: "2024-01-01T10:10:00.000Z",
+    duration: 600000,
+    projects: ["chromium", "firefox"],
+    totals: { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0, duration: 0 },
+    tests,
+  });
+
+  it("should group tests by file and describe block with rolled-up totals", () => {
+    const tests = [
+      createTest({ id: "1", suitePath: ["auth.spec.ts", "Login", "SSO › OAuth"] }),
+      createTest({
+        id: "2",
+        suitePath: ["auth.spec.ts", "Login", "SSO › OAuth"],
+        project: "firefox",
+        status: "failed",
+        duration: 50,
+      }),
+      createTest({ id: "3", suitePath: ["auth.spec.ts", "Login"], status: "flaky" }),
+      createTest({ id: "4" }),
+      createTest({
+        id: "5",
+        file: "cart.spec.ts",
+        suitePath: ["cart.spec.ts", "Cart"],
+        status: "skipped",
+        duration: 0,
+      }),
+    ];
+
+    const tree = buildSuiteTree(createRun(tests));
+
+    expect(tree.totals).toEqual({
+      total: 5,
+      passed: 2,
+      failed: 1,
+      skipped: 1,
+      flaky: 1,
+      duration: 350,
+    });
+    expect(tree.files.map((file) => file.file)).toEqual([
+      "auth.spec.ts",
+      "cart.spec.ts",
+    ]);
+
+    const auth = tree.files[0]!;
+    expect(auth.totals.total).toBe(4);
+    expect(auth.tests.map((test) => test.id)).toEqual(["4"]);
+    expect(auth.suites).toHaveLength(1);
+
+    const login = auth.suites[0]!;
+    expect(login.title).toBe("Login");
+    expect(login.suitePath).toEqual(["Login"]);
+    expect(login.totals).toMatchObject({ total: 3, passed: 1, failed: 1, flaky: 1 });
+    expect(login.tests.map((test) => test.id)).toEqual(["3"]);
+
+    const sso = login.suites[0]!;
+    expect(sso.title).toBe("SSO › OAuth");
+    expect(sso.suitePath).toEqual(["Login", "SSO › OAuth"]);
+    expect(sso.totals).toMatchObject({ total: 2, passed: 1, failed: 1, duration: 150 });
+    expect(sso.tests.map((test) => test.project)).toEqual(["chromium", "firefox"]);
+
+    expect(tree.files[1]!.suites[0]!.totals.skipped).toBe(1);
+  });
+
+  it("should keep outer suites that are not named after the file", () => {
+    const tree = buildSuiteTree(
+      createRun([createTest({ suitePath: ["Suite", "Nested"] }), createTest({})]),
+    );
+
+    const file = tree.files[0]!;
+    expect(file.suites.map((suite) => suite.title)).toEqual(["Suite"]);
+    expect(file.suites[0]!.suites[0]!.suitePath).toEqual(["Suite", "Nested"]);
+    expect(file.tests).toHaveLength(1);
+  });
+
+  it("should return an empty tree for a run without tests", () => {
+    expect(buildSuiteTree(createRun([]))).toEqual({
+      totals: { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0, duration: 0 },
+      files: [],
+    });
+  });
+});
@@ -25,7 +25,8 @@ describe("Parser File System Error Handling", () => {
 
     it("should throw ValidationError for malformed JSON in file", async () => {
       const mockReadFile = vi.mocked(fs.readFile);
-      mockReadFile.mockResolvedValueOnce("invalid json{" as unknown as string);
+      // The file is read as a Buffer so compressed reports can be detected
+      mockReadFile.mockResolvedValue(Buffer.from("invalid json{"));
 
       await expect(parsePlaywrightJson("/invalid.json")).rejects.toThrow(
         ValidationError,
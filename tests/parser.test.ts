@@ -1,10 +1,25 @@
-import { describe, it, expect, vi } from "vitest";
-import { promises as fs } from "fs";
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { promises as fs, createReadStream } from "fs";
+import { PassThrough, Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { ReadableStream } from "stream/web";
+import { setTimeout as delay } from "timers/promises";
+import { brotliCompressSync, deflateRawSync, gzipSync } from "zlib";
+import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import {
   parsePlaywrightJson,
   parsePlaywrightResults,
+  streamPlaywrightJson,
+  parseBlobReport,
+  parsePlaywrightReports,
+  parseTestInventory,
+  detectReportFormat,
+  TESTED_PLAYWRIGHT_VERSION,
+  iterateTests,
+  createTestStream,
+  createTestTransform,
   ValidationError,
   validatePlaywrightJson,
   normalizeTestRun,
@@ -23,6 +38,7 @@ import type { PlaywrightJsonReport } from "../src/parser/validator.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
+const fixture = (name: string): string => path.join(__dirname, "fixtures", name);
 
 describe("Parser", () => {
   describe("parsePlaywrightJson", () => {
@@ -122,6 +138,47 @@ describe("Parser", () => {
       expect(result.tests[0].fullTitle.length).toBeGreaterThan(0);
     });
 
+    it("should list the enclosing suites of each test in suitePath", async () => {
+      const result = await parsePlaywrightJson({
+        config: {},
+        suites: [
+          {
+            title: "nav.spec.ts",
+            file: "nav.spec.ts",
+            suites: [
+              {
+                title: "Menu › Mobile",
+                specs: [
+                  {
+                    title: "opens",
+                    ok: true,
+                    tests: [
+                      {
+                        timeout: 30000,
+                        expectedStatus: "passed",
+                        results: [
+                          {
+                            workerIndex: 0,
+                            status: "passed",
+                            duration: 5,
+                            retry: 0,
+                            startTime: "2024-01-01T00:00:00.000Z",
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result.tests[0]!.suitePath).toEqual(["nav.spec.ts", "Menu › Mobile"]);
+      expect(result.tests[0]!.fullTitle).toBe("nav.spec.ts › Menu › Mobile › opens");
+    });
+
     it("should extract file location correctly", async () => {
       const filePath = path.join(__dirname, "fixtures", "all-success.json");
       const result = await parsePlaywrightJson(filePath);
@@ -281,6 +338,95 @@ describe("Validation", () => {
       expect((error as ValidationError).issues).toBeDefined();
     }
   });
+
+  it("should locate each issue with its expected type and value", async () => {
+    const report = JSON.parse(
+      await fs.readFile(
+        path.join(__dirname, "fixtures", "with-failures.json"),
+        "utf-8",
+      ),
+    ) as PlaywrightJsonReport;
+    const result = report.suites[0]!.suites![0]!.specs![3]!.tests[0]!.results[0]!;
+    Object.assign(result, { duration: "1.2s", status: "weird" });
+
+    let error: ValidationError | undefined;
+    try {
+      validatePlaywrightJson(report);
+    } catch (caught) {
+      error = caught as ValidationError;
+    }
+
+    expect(error!.diagnostics).toEqual([
+      {
+        path: "$.suites[0].suites[0].specs[3].tests[0].results[0].status",
+        message: expect.stringContaining("Invalid option"),
+        expected: '"passed" | "failed" | "timedOut" | "skipped" | "interrupted"',
+        received: "string",
+        value: '"weird"',
+      },
+      {
+        path: "$.suites[0].suites[0].specs[3].tests[0].results[0].duration",
+        message: "Invalid input: expected number, received string",
+        expected: "number",
+        received: "string",
+        value: '"1.2s"',
+      },
+    ]);
+    expect(error!.message).toContain(
+      "expected number, received string at $.suites[0].suites[0].specs[3].tests[0].results[0].duration",
+    );
+  });
+
+  it("should excerpt missing fields, long strings and containers", () => {
+    const data = {
+      config: { projects: { chromium: {}, firefox: {} } },
+      suites: [{ specs: [] }],
+      stats: { startTime: 1, duration: "x".repeat(100) },
+    };
+
+    let error: ValidationError | undefined;
+    try {
+      validatePlaywrightJson(data);
+    } catch (caught) {
+      error = caught as ValidationError;
+    }
+
+    const byPath = new Map(error!.diagnostics.map((d) => [d.path, d]));
+    expect(byPath.get("$.config.projects")).toMatchObject({
+      received: "object",
+      value: "{ chromium, firefox }",
+    });
+    expect(byPath.get("$.suites[0].title")).toMatchObject({
+      expected: "string",
+      received: "undefined",
+    });
+    expect(byPath.get("$.suites[0].title")).not.toHaveProperty("value");
+    expect(byPath.get("$.stats.duration")!.value).toBe(`"${"x".repeat(56)}...`);
+    expect(error!.message).toContain("and 1 more");
+  });
+
+  it("should format diagnostics for the terminal", () => {
+    let error: ValidationError | undefined;
+    try {
+      validatePlaywrightJson({ config: {}, suites: "not an array" });
+    } catch (caught) {
+      error = caught as ValidationError;
+    }
+
+    expect(error!.format()).toBe(
+      [
+        "ValidationError: Invalid Playwright JSON report (1 issue)",
+        "",
+        "  ✖ $.suites",
+        "    Invalid input: expected array, received string",
+        "    expected: array",
+        '    received: string "not an array"',
+      ].join("\n"),
+    );
+    expect(new ValidationError("Invalid JSON in buffer").format()).toBe(
+      "ValidationError: Invalid JSON in buffer",
+    );
+  });
 });
 
 describe("Normalizer", () => {
@@ -293,6 +439,131 @@ describe("Normalizer", () => {
     expect(uniqueIds.size).toBe(ids.length);
   });
 
+  it("should give a test the same ID whichever projects of its spec the report holds", () => {
+    const createEntry = (projectName: string): Record<string, unknown> => ({
+      timeout: 30000,
+      expectedStatus: "passed",
+      projectName,
+      results: [
+        {
+          workerIndex: 0,
+          duration: 100,
+          retry: 0,
+          startTime: "2024-01-01T00:00:00.000Z",
+        },
+      ],
+      status: "expected",
+    });
+    const createReport = (projects: string[]): PlaywrightJsonReport =>
+      ({
+        config: {},
+        suites: [
+          {
+            title: "a.spec.ts",
+            file: "a.spec.ts",
+            specs: [
+              {
+                title: "works",
+                ok: true,
+                id: "pwid",
+                tests: projects.map(createEntry),
+              },
+            ],
+          },
+        ],
+      }) as unknown as PlaywrightJsonReport;
+
+    const chromiumOnly = normalizeTestRun(createReport(["chromium"])).tests;
+    const both = normalizeTestRun(createReport(["chromium", "firefox"])).tests;
+
+    expect(chromiumOnly[0]!.id).toBe(both[0]!.id);
+    expect(chromiumOnly[0]!.id).toMatch(/^[0-9a-f]{20}$/);
+    expect(both[1]!.id).not.toBe(both[0]!.id);
+  });
+
+  it("should keep test IDs stable when tests are added or reordered", () => {
+    const createLegacyTest = (title: string): Record<string, unknown> => ({
+      title,
+      tests: [
+        {
+          timeout: 30000,
+          expectedStatus: "passed",
+          projectName: "chromium",
+          results: [
+            {
+              workerIndex: 0,
+              duration: 100,
+              retry: 0,
+              startTime: "2024-01-01T00:00:00.000Z",
+            },
+          ],
+          status: "expected",
+        },
+      ],
+    });
+    const createReport = (titles: string[]): PlaywrightJsonReport =>
+      ({
+        config: {},
+        suites: [
+          { title: "Suite", file: "a.spec.ts", tests: titles.map(createLegacyTest) },
+        ],
+      }) as unknown as PlaywrightJsonReport;
+
+    const before = normalizeTestRun(createReport(["first", "second"]));
+    const after = normalizeTestRun(createReport(["new", "second", "first"]));
+    const idOf = (run: NormalizedTestRun, title: string): string =>
+      run.tests.find((t) => t.title === title)!.id;
+
+    expect(idOf(after, "first")).toBe(idOf(before, "first"));
+    expect(idOf(after, "second")).toBe(idOf(before, "second"));
+    expect(idOf(before, "first")).toMatch(/^[0-9a-f]{20}$/);
+  });
+
+  it("should derive distinct IDs for specs grouping several tests", () => {
+    const createEntry = (projectName: string): Record<string, unknown> => ({
+      timeout: 30000,
+      expectedStatus: "passed",
+      projectName,
+      results: [
+        {
+          workerIndex: 0,
+          duration: 100,
+          retry: 0,
+          startTime: "2024-01-01T00:00:00.000Z",
+        },
+      ],
+      status: "expected",
+    });
+    const report = {
+      config: {},
+      suites: [
+        {
+          title: "a.spec.ts",
+          file: "a.spec.ts",
+          specs: [
+            {
+              title: "works",
+              ok: true,
+              id: "spec-id",
+              tests: [
+                createEntry("chromium"),
+                createEntry("firefox"),
+                createEntry("firefox"),
+              ],
+            },
+          ],
+        },
+      ],
+    } as unknown as PlaywrightJsonReport;
+
+    const ids = normalizeTestRun(report).tests.map((t) => t.id);
+
+    expect(new Set(ids).size).toBe(3);
+    expect(ids).not.toContain("spec-id");
+    // repeatEach copies share project and title, so they are told apart by occurrence
+    expect(ids[2]).toBe(`${ids[1]}-1`);
+  });
+
   it("should extract annotations correctly", async () => {
     const filePath = path.join(__dirname, "fixtures", "flaky-tests.json");
     const result = await parsePlaywrightJson(filePath);
@@ -347,21 +618,1683 @@ describe("Normalizer", () => {
       ],
     };
 
-    const validated = validatePlaywrightJson(data);
-    const result = normalizeTestRun(validated);
+    const validated = validatePlaywrightJson(data);
+    const result = normalizeTestRun(validated);
+
+    expect(result.tests[0].file).toBe("unknown");
+    expect(result.tests[0].line).toBe(0);
+    expect(result.tests[0].column).toBe(0);
+  });
+
+  it("should generate a random runId by default", async () => {
+    const filePath = path.join(__dirname, "fixtures", "all-success.json");
+    const first = await parsePlaywrightJson(filePath);
+    const second = await parsePlaywrightJson(filePath);
+
+    expect(first.runId).not.toBe(second.runId);
+  });
+
+  it("should derive a deterministic runId from report contents", async () => {
+    const filePath = path.join(__dirname, "fixtures", "all-success.json");
+    const first = await parsePlaywrightJson(filePath, { deterministicRunId: true });
+    const second = await parsePlaywrightJson(filePath, { deterministicRunId: true });
+    const other = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "with-failures.json"),
+      { deterministicRunId: true },
+    );
+
+    expect(first.runId).toBe(second.runId);
+    expect(first.runId).not.toBe(other.runId);
+    expect(first.runId).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+
+  it("should derive the same runId when streaming a report", async () => {
+    for (const name of ["all-success.json", "with-failures.json", "flaky-tests.json"]) {
+      const filePath = path.join(__dirname, "fixtures", name);
+      const parsed = await parsePlaywrightJson(filePath, { deterministicRunId: true });
+      const streamed = await streamPlaywrightJson(filePath, {
+        deterministicRunId: true,
+        onTest: () => {},
+      });
+      // Formatting and compression of the report do not change its runId
+      const json = JSON.parse(await fs.readFile(filePath, "utf-8")) as unknown;
+      const compact = await streamPlaywrightJson(
+        Readable.from([gzipSync(JSON.stringify(json))]),
+        { deterministicRunId: true, onTest: () => {} },
+      );
+
+      expect(streamed.runId).toBe(parsed.runId);
+      expect(compact.runId).toBe(parsed.runId);
+    }
+  });
+
+  it("should use a caller-provided runId", async () => {
+    const filePath = path.join(__dirname, "fixtures", "all-success.json");
+    const result = await parsePlaywrightJson(filePath, {
+      runId: "build-1234",
+      deterministicRunId: true,
+    });
+
+    expect(result.runId).toBe("build-1234");
+  });
+
+  it("should extract run timestamps", async () => {
+    const filePath = path.join(__dirname, "fixtures", "all-success.json");
+    const result = await parsePlaywrightJson(filePath);
+
+    expect(result.startedAt).toBeDefined();
+    expect(result.endedAt).toBeDefined();
+    expect(result.duration).toBeGreaterThan(0);
+  });
+});
+
+describe("Report-level errors", () => {
+  it("should surface global errors with their location", () => {
+    const report = validatePlaywrightJson({
+      config: {},
+      suites: [],
+      errors: [
+        {
+          message: "Error: connect ECONNREFUSED 127.0.0.1:5432",
+          stack:
+            "Error: connect ECONNREFUSED 127.0.0.1:5432\n    at global-setup.ts:7:11",
+          location: { file: "/repo/global-setup.ts", line: 7, column: 11 },
+        },
+      ],
+    });
+
+    const normalized = normalizeTestRun(report);
+
+    expect(normalized.totals.total).toBe(0);
+    expect(normalized.errors).toEqual([
+      {
+        message: "Error: connect ECONNREFUSED 127.0.0.1:5432",
+        stack:
+          "Error: connect ECONNREFUSED 127.0.0.1:5432\n    at global-setup.ts:7:11",
+        snippet: undefined,
+        file: "/repo/global-setup.ts",
+        line: 7,
+        column: 11,
+        frames: [
+          {
+            file: "global-setup.ts",
+            line: 7,
+            column: 11,
+            function: undefined,
+            kind: "test",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should default to no errors and merge errors across shards", async () => {
+    const shard1 = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "shard1.json"),
+    );
+    const shard2 = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "shard2.json"),
+    );
+    expect(shard1.errors).toEqual([]);
+
+    const combined = aggregateShardedRuns([
+      shard1,
+      { ...shard2, errors: [{ message: "Worker crashed" }] },
+    ]);
+    expect(combined.errors).toEqual([{ message: "Worker crashed" }]);
+  });
+
+  it("should keep error locations of test attempts", async () => {
+    const result = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "with-failures.json"),
+    );
+    const failed = result.tests.find((t) => t.status === "failed")!;
+
+    expect(failed.error?.file).toContain("02-with-failures.spec.ts");
+    expect(failed.error?.line).toBeGreaterThan(0);
+    expect(failed.error?.snippet).toBeDefined();
+    expect(failed.error?.frames?.[0]).toMatchObject({
+      file: failed.error?.file,
+      line: failed.error?.line,
+      kind: "test",
+    });
+  });
+
+  it("should strip ANSI codes and keep the colored originals", async () => {
+    const result = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "with-failures.json"),
+    );
+    const failed = result.tests.find((t) => t.status === "failed")!;
+    const error = failed.error!;
+
+    expect(error.message).not.toContain("\u001b");
+    expect(error.stack).not.toContain("\u001b");
+    expect(error.message).toContain(
+      "Timed out 5000ms waiting for expect(locator).toBeVisible()",
+    );
+    expect(error.colored?.message).toContain("\u001b[31m");
+    expect(failed.errors![0].message).not.toContain("\u001b");
+  });
+
+  it("should parse assertion details from expect() failures", async () => {
+    const result = await parsePlaywrightJson(
+      path.join(__dirname, "fixtures", "with-failures.json"),
+    );
+    const assertions = result.tests
+      .map((t) => t.error?.assertion)
+      .filter((assertion) => assertion !== undefined);
+
+    expect(assertions).toContainEqual({
+      matcher: "toBeVisible",
+      subject: "locator",
+      negated: false,
+      locator: "getByTestId('non-existent-element')",
+      expected: "visible",
+      received: "<element(s) not found>",
+      callLog: [
+        'Expect "toBeVisible" with timeout 5000ms',
+        "waiting for getByTestId('non-existent-element')",
+      ],
+      timeout: 5000,
+    });
+    expect(assertions.some((assertion) => assertion.matcher === "toHaveTitle")).toBe(
+      true,
+    );
+
+    // Action failures such as locator.click are not assertions
+    const clickFailure = result.tests.find((t) =>
+      t.error?.message.startsWith("Error: locator.click"),
+    );
+    expect(clickFailure?.error?.assertion).toBeUndefined();
+  });
+
+  it("should not add colored text to plain errors", () => {
+    const report = validatePlaywrightJson({
+      config: {},
+      suites: [],
+      errors: [{ message: "Error: plain" }],
+    });
+
+    expect(normalizeTestRun(report).errors![0].colored).toBeUndefined();
+  });
+});
+
+describe("Test outcomes", () => {
+  const createReport = (
+    tests: Array<{
+      title: string;
+      status?: string;
+      expectedStatus?: string;
+      attemptStatuses: string[];
+    }>,
+  ): PlaywrightJsonReport =>
+    ({
+      config: {},
+      suites: [
+        {
+          title: "outcomes.spec.ts",
+          file: "outcomes.spec.ts",
+          specs: tests.map((test) => ({
+            title: test.title,
+            ok: true,
+            tests: [
+              {
+                timeout: 30000,
+                expectedStatus: test.expectedStatus ?? "passed",
+                projectName: "chromium",
+                results: test.attemptStatuses.map((status, retry) => ({
+                  workerIndex: 0,
+                  status,
+                  duration: 10,
+                  retry,
+                  startTime: "2024-01-01T00:00:00.000Z",
+                })),
+                status: test.status,
+              },
+            ],
+          })),
+        },
+      ],
+    }) as unknown as PlaywrightJsonReport;
+
+  it("should distinguish timeouts, interruptions and test.fail() from plain results", () => {
+    const normalized = normalizeTestRun(
+      createReport([
+        { title: "passes", status: "expected", attemptStatuses: ["passed"] },
+        { title: "asserts", status: "unexpected", attemptStatuses: ["failed"] },
+        {
+          title: "hangs",
+          status: "unexpected",
+          attemptStatuses: ["failed", "timedOut"],
+        },
+        { title: "aborted", status: "unexpected", attemptStatuses: ["interrupted"] },
+        { title: "cut short", status: "skipped", attemptStatuses: ["interrupted"] },
+        { title: "skipped", status: "skipped", attemptStatuses: ["skipped"] },
+        { title: "retried", status: "flaky", attemptStatuses: ["failed", "passed"] },
+        {
+          title: "known bug",
+          status: "expected",
+          expectedStatus: "failed",
+          attemptStatuses: ["failed"],
+        },
+        {
+          title: "bug fixed",
+          status: "unexpected",
+          expectedStatus: "failed",
+          attemptStatuses: ["passed"],
+        },
+        { title: "no status", attemptStatuses: ["timedOut"] },
+      ]),
+    );
+
+    const outcomes = Object.fromEntries(
+      normalized.tests.map((t) => [t.title, t.outcome]),
+    );
+    expect(outcomes).toEqual({
+      "passes": "passed",
+      "asserts": "failed",
+      "hangs": "timedOut",
+      "aborted": "interrupted",
+      "cut short": "interrupted",
+      "skipped": "skipped",
+      "retried": "flaky",
+      "known bug": "expectedFailure",
+      "bug fixed": "unexpectedPass",
+      "no status": "timedOut",
+    });
+
+    // The coarse status keeps its existing mapping
+    const statuses = Object.fromEntries(
+      normalized.tests.map((t) => [t.title, t.status]),
+    );
+    expect(statuses["hangs"]).toBe("failed");
+    expect(statuses["known bug"]).toBe("passed");
+    expect(statuses["no status"]).toBe("failed");
+  });
+});
+
+describe("Streaming parser", () => {
+  /** Yield a buffer in small chunks so tokens and characters span chunk boundaries */
+  async function* chunked(buffer: Buffer, size = 7): AsyncGenerator<Buffer> {
+    for (let i = 0; i < buffer.length; i += size) {
+      yield buffer.subarray(i, i + size);
+    }
+  }
+
+  const byId = (a: NormalizedTest, b: NormalizedTest): number => (a.id < b.id ? -1 : 1);
+
+  it.each([
+    "all-success.json",
+    "with-failures.json",
+    "flaky-tests.json",
+    "shard1.json",
+  ])("should match parsePlaywrightJson for %s", async (name) => {
+    const { tests, ...expected } = await parsePlaywrightJson(fixture(name), {
+      runId: "run",
+    });
+
+    const streamed: NormalizedTest[] = [];
+    const summary = await streamPlaywrightJson(fixture(name), {
+      runId: "run",
+      onTest: (test) => {
+        streamed.push(test);
+      },
+    });
+
+    expect(summary).toEqual(expected);
+    expect(streamed.sort(byId)).toEqual(tests.sort(byId));
+  });
+
+  it("should handle chunk boundaries inside strings, escapes and multi-byte characters", async () => {
+    const report = {
+      config: { projects: [{ name: "chromium" }] },
+      suites: [
+        {
+          title: "unicode.spec.ts",
+          file: "unicode.spec.ts",
+          specs: [
+            {
+              title: 'handles "quotes", \\ and ünïcödé ✓',
+              ok: false,
+              tests: [
+                {
+                  timeout: 30000,
+                  expectedStatus: "passed",
+                  projectName: "chromium",
+                  status: "unexpected",
+                  results: [
+                    {
+                      workerIndex: 0,
+                      status: "failed",
+                      duration: 12.5,
+                      error: { message: "Error: \u001b[31mboom\u001b[39m\n✗" },
+                      retry: 0,
+                      startTime: "2024-01-01T00:00:00.000Z",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      stats: { startTime: "2024-01-01T00:00:00.000Z", duration: 12.5 },
+    };
+    const buffer = Buffer.from(JSON.stringify(report, null, 2));
+    const expected = await parsePlaywrightJson(buffer, { runId: "run" });
+
+    for (const size of [1, 2, 3]) {
+      const streamed: NormalizedTest[] = [];
+      await streamPlaywrightJson(chunked(buffer, size), {
+        onTest: (test) => {
+          streamed.push(test);
+        },
+      });
+      expect(streamed).toEqual(expected.tests);
+    }
+  });
+
+  it("should emit tests before the report has been read to the end", async () => {
+    const buffer = await fs.readFile(fixture("with-failures.json"));
+    let bytesRead = 0;
+    const bytesReadAtTest: number[] = [];
+
+    async function* tracked(): AsyncGenerator<Buffer> {
+      for await (const chunk of chunked(buffer, 256)) {
+        bytesRead += chunk.length;
+        yield chunk;
+      }
+    }
+
+    await streamPlaywrightJson(tracked(), {
+      onTest: () => {
+        bytesReadAtTest.push(bytesRead);
+      },
+    });
+
+    expect(bytesReadAtTest.length).toBeGreaterThan(0);
+    expect(bytesReadAtTest[0]).toBeLessThan(buffer.length);
+  });
+
+  it("should wait for async callbacks before reading further", async () => {
+    const order: string[] = [];
+    const buffer = await fs.readFile(fixture("all-success.json"));
+
+    async function* tracked(): AsyncGenerator<Buffer> {
+      for await (const chunk of chunked(buffer, 512)) {
+        order.push("read");
+        yield chunk;
+      }
+    }
+
+    await streamPlaywrightJson(tracked(), {
+      onTest: async () => {
+        order.push("start");
+        await new Promise((resolve) => process.nextTick(resolve));
+        order.push("end");
+      },
+    });
+
+    // Every callback finishes before the next one starts or another chunk is read
+    const callbacks = order.filter((entry) => entry !== "read");
+    for (let i = 0; i < callbacks.length; i += 2) {
+      expect(callbacks.slice(i, i + 2)).toEqual(["start", "end"]);
+    }
+    expect(order.indexOf("read", order.indexOf("start"))).toBeGreaterThan(
+      order.indexOf("end"),
+    );
+  });
+
+  it("should emit specs read before their suite title once the suite is complete", async () => {
+    const json = `{
+      "config": {},
+      "suites": [{
+        "specs": [{
+          "title": "late title",
+          "ok": true,
+          "tests": [{
+            "timeout": 0,
+            "expectedStatus": "passed",
+            "status": "expected",
+            "results": [{ "workerIndex": 0, "status": "passed", "duration": 5, "retry": 0, "startTime": "2024-01-01T00:00:00.000Z" }]
+          }]
+        }],
+        "title": "outer",
+        "file": "late.spec.ts"
+      }]
+    }`;
+
+    const streamed: NormalizedTest[] = [];
+    const summary = await streamPlaywrightJson(chunked(Buffer.from(json)), {
+      onTest: (test) => {
+        streamed.push(test);
+      },
+    });
+
+    expect(streamed.map((t) => t.fullTitle)).toEqual(["outer › late title"]);
+    expect(streamed[0]?.suitePath).toEqual(["outer"]);
+    expect(streamed[0]?.file).toBe("late.spec.ts");
+    expect(summary.totals.total).toBe(1);
+  });
+
+  it("should report the JSON path of an invalid spec", async () => {
+    const json = JSON.stringify({
+      config: {},
+      suites: [{ title: "a", specs: [{ title: "no tests", ok: true }] }],
+    });
+
+    const error = await streamPlaywrightJson(chunked(Buffer.from(json)), {
+      onTest: () => {},
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues?.[0]?.path).toEqual([
+      "suites",
+      0,
+      "specs",
+      0,
+      "tests",
+    ]);
+  });
+
+  it("should reject malformed JSON with the existing messages", async () => {
+    await expect(
+      streamPlaywrightJson(chunked(Buffer.from('{"config": {}, "suites": [')), {
+        onTest: () => {},
+      }),
+    ).rejects.toThrow("Invalid JSON in stream: Unexpected end of JSON input");
+
+    await expect(
+      streamPlaywrightJson(chunked(Buffer.from('{"config": {} "suites": []}')), {
+        onTest: () => {},
+      }),
+    ).rejects.toThrow(ValidationError);
+
+    await expect(
+      streamPlaywrightJson(fixture("missing.json"), { onTest: () => {} }),
+    ).rejects.toThrow(`File not found: ${fixture("missing.json")}`);
+  });
+
+  it("should propagate errors thrown by the callback", async () => {
+    await expect(
+      streamPlaywrightJson(fixture("all-success.json"), {
+        onTest: () => {
+          throw new Error("stop");
+        },
+      }),
+    ).rejects.toThrow("stop");
+  });
+});
+
+describe("Test iteration", () => {
+  it("should yield the tests of a report and return the run summary", async () => {
+    const { tests, ...expected } = await parsePlaywrightJson(
+      fixture("with-failures.json"),
+      {
+        runId: "run",
+      },
+    );
+
+    const iterator = iterateTests(fixture("with-failures.json"), { runId: "run" });
+    const yielded: NormalizedTest[] = [];
+    let result = await iterator.next();
+    while (!result.done) {
+      yielded.push(result.value);
+      result = await iterator.next();
+    }
+
+    expect(yielded).toHaveLength(tests.length);
+    expect(new Set(yielded.map((t) => t.id))).toEqual(new Set(tests.map((t) => t.id)));
+    expect(result.value).toEqual(expected);
+  });
+
+  it("should stop reading when the consumer breaks out early", async () => {
+    let chunksRead = 0;
+    const buffer = await fs.readFile(fixture("with-failures.json"));
+
+    async function* source(): AsyncGenerator<Buffer> {
+      for (let i = 0; i < buffer.length; i += 64) {
+        chunksRead++;
+        yield buffer.subarray(i, i + 64);
+      }
+    }
+
+    let count = 0;
+    for await (const test of iterateTests(source())) {
+      expect(test.id).toBeDefined();
+      if (++count === 2) break;
+    }
+
+    expect(count).toBe(2);
+    expect(chunksRead * 64).toBeLessThan(buffer.length);
+  });
+
+  it("should throw parse errors from the iterator", async () => {
+    const consume = async (): Promise<void> => {
+      for await (const test of iterateTests(fixture("malformed.json"))) {
+        expect(test).toBeDefined();
+      }
+    };
+
+    await expect(consume()).rejects.toThrow(ValidationError);
+  });
+
+  it("should emit tests from an object-mode Readable", async () => {
+    const ids: string[] = [];
+    for await (const test of createTestStream(fixture("flaky-tests.json"))) {
+      ids.push((test as NormalizedTest).id);
+    }
+
+    const run = await parsePlaywrightJson(fixture("flaky-tests.json"));
+    expect(ids.sort()).toEqual(run.tests.map((t) => t.id).sort());
+  });
+
+  it("should turn report bytes into tests in a pipeline", async () => {
+    const ids: string[] = [];
+    await pipeline(
+      createReadStream(fixture("all-success.json")),
+      createTestTransform(),
+      new Writable({
+        objectMode: true,
+        write(test: NormalizedTest, _encoding, callback): void {
+          ids.push(test.id);
+          callback();
+        },
+      }),
+    );
+
+    const run = await parsePlaywrightJson(fixture("all-success.json"));
+    expect(ids.sort()).toEqual(run.tests.map((t) => t.id).sort());
+  });
+});
+
+describe("Blob reports", () => {
+  /**
+   * Build a ZIP archive with deflated entries. CRCs are left empty since the
+   * reader does not check them.
+   */
+  const createZip = (files: Record<string, string>): Buffer => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+      const nameBuffer = Buffer.from(name);
+      const data = deflateRawSync(Buffer.from(content));
+      const size = Buffer.byteLength(content);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(8, 8);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(size, 22);
+      local.writeUInt16LE(nameBuffer.length, 26);
+      locals.push(local, nameBuffer, data);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(8, 10);
+      central.writeUInt32LE(data.length, 20);
+      central.writeUInt32LE(size, 24);
+      central.writeUInt16LE(nameBuffer.length, 28);
+      central.writeUInt32LE(offset, 42);
+      centrals.push(central, nameBuffer);
+
+      offset += local.length + nameBuffer.length + data.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+  };
+
+  const loadBlob = async (): Promise<Buffer> =>
+    createZip({
+      "resources/abc123.png": "png",
+      "report-1.jsonl": await fs.readFile(fixture("blob-report-1.jsonl"), "utf-8"),
+    });
+
+  it("should replay blob events into a normalized run", async () => {
+    const run = await parseBlobReport(await loadBlob());
+
+    expect(run.projects).toEqual(["chromium", "firefox"]);
+    expect(run.startedAt).toBe("2024-01-01T10:00:00.000Z");
+    expect(run.duration).toBe(75000);
+    expect(run.metadata).toEqual({ ci: true });
+    expect(run.totals).toMatchObject({
+      total: 8,
+      passed: 2,
+      failed: 2,
+      flaky: 2,
+      skipped: 2,
+    });
+    expect(run.errors?.[0]?.message).toBe("Error: worker process exited unexpectedly");
+  });
+
+  it("should honour lenient mode and cancellation", async () => {
+    const lines = (await fs.readFile(fixture("blob-report-1.jsonl"), "utf-8"))
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const event = JSON.parse(line) as {
+          method: string;
+          params: { project?: { name: string } };
+        };
+        if (event.params.project?.name === "chromium") {
+          Object.assign(event.params.project, { timeout: "30s" });
+        }
+        return JSON.stringify(event);
+      });
+    const zip = createZip({ "report-1.jsonl": lines.join("\n") });
+
+    await expect(parseBlobReport(zip)).rejects.toThrow(ValidationError);
+    const run = await parseBlobReport(zip, { mode: "lenient" });
+    expect(run.totals.total).toBe(8);
+    expect(run.warnings!.map((warning) => warning.path)).toEqual([
+      "$.config.projects[0].timeout",
+    ]);
+
+    await expect(
+      parseBlobReport(fixture("blob-report-1.jsonl"), { signal: AbortSignal.abort() }),
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+  });
+
+  it("should take shard info from the blob metadata", async () => {
+    const run = await parseBlobReport(await loadBlob());
+
+    expect(run.shards).toEqual([
+      { current: 1, total: 2, duration: 75000, testCount: 8 },
+    ]);
+  });
+
+  it("should rebuild tests with attempts, steps and output", async () => {
+    const run = await parseBlobReport(await loadBlob());
+    const byTitle = (title: string, project = "chromium"): NormalizedTest =>
+      run.tests.find((t) => t.title === title && t.project === project)!;
+
+    const login = byTitle("logs in");
+    expect(login.fullTitle).toBe("auth.spec.ts › logs in");
+    expect(login.file).toBe("auth.spec.ts");
+    expect(login.line).toBe(3);
+    expect(login.tags).toEqual(["@smoke"]);
+    expect(login.attempts?.[0]).toMatchObject({
+      retry: 0,
+      status: "passed",
+      startTime: "2024-01-01T10:00:00.000Z",
+      stdout: ["logging in\n"],
+      stderr: ["warning\n"],
+    });
+    // Only test.step steps are kept, as in the JSON reporter
+    expect(login.attempts?.[0]?.steps.map((s) => s.title)).toEqual([
+      "open login page",
+      "submit form",
+    ]);
+
+    const logout = byTitle("logs out", "firefox");
+    expect(logout.status).toBe("failed");
+    expect(logout.fullTitle).toBe("auth.spec.ts › logout › logs out");
+    expect(logout.attempts?.map((a) => a.retry)).toEqual([0, 1]);
+    expect(logout.attempts?.[0]?.attachments[0]?.path).toBe("resources/abc123.png");
+    expect(logout.attempts?.[0]?.steps[0]?.error?.assertion?.matcher).toBe("toBe");
+    expect(logout.error?.file).toBe("/repo/tests/auth.spec.ts");
+
+    expect(byTitle("clears session").status).toBe("flaky");
+    expect(byTitle("remembers device").annotations).toEqual([
+      { type: "skip", description: "not ready" },
+    ]);
+  });
+
+  it("should give tests shared by several projects distinct IDs", async () => {
+    const run = await parseBlobReport(await loadBlob());
+
+    // Specs are merged across projects as in the JSON reporter, so IDs are hashed
+    // per project rather than taken from the blob's per-project test IDs
+    expect(new Set(run.tests.map((t) => t.id)).size).toBe(run.tests.length);
+  });
+
+  it("should read blob reports from a file path", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "blob-"));
+    const file = path.join(dir, "report-1.zip");
+    await fs.writeFile(file, await loadBlob());
+
+    try {
+      const run = await parseBlobReport(file, { runId: "shard-1" });
+      expect(run.runId).toBe("shard-1");
+      expect(run.totals.total).toBe(8);
+    } finally {
+      await fs.rm(dir, { recursive: true });
+    }
+  });
+
+  it("should support older blob reports with suites and tests instead of entries", async () => {
+    const events = [
+      { method: "onBlobReportMetadata", params: { version: 1 } },
+      { method: "onConfigure", params: { config: { rootDir: "/repo" } } },
+      {
+        method: "onProject",
+        params: {
+          project: {
+            name: "default",
+            suites: [
+              {
+                title: "a.spec.ts",
+                location: { file: "a.spec.ts", line: 0, column: 0 },
+                suites: [],
+                tests: [
+                  {
+                    testId: "t1",
+                    title: "works",
+                    location: { file: "a.spec.ts", line: 1, column: 1 },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+      {
+        method: "onTestBegin",
+        params: { testId: "t1", result: { id: "r1", retry: 0, startTime: 0 } },
+      },
+      {
+        method: "onTestEnd",
+        params: {
+          test: { testId: "t1", expectedStatus: "passed", timeout: 1000 },
+          result: { id: "r1", duration: 5, status: "passed", errors: [] },
+        },
+      },
+      {
+        method: "onEnd",
+        params: { result: { status: "passed", startTime: 0, duration: 5 } },
+      },
+    ];
+    const zip = createZip({
+      "report.jsonl": events.map((event) => JSON.stringify(event)).join("\n"),
+    });
+
+    const run = await parseBlobReport(zip);
+
+    expect(run.shards).toBeUndefined();
+    expect(run.tests.map((t) => [t.id, t.fullTitle, t.status])).toEqual([
+      [expect.stringMatching(/^[0-9a-f]{20}$/), "a.spec.ts › works", "passed"],
+    ]);
+  });
+
+  it("should reject archives that are not blob reports", async () => {
+    await expect(parseBlobReport(Buffer.from("not a zip"))).rejects.toThrow(
+      ValidationError,
+    );
+    await expect(parseBlobReport(createZip({ "index.html": "" }))).rejects.toThrow(
+      "Invalid blob report: no .jsonl event file found",
+    );
+    await expect(
+      parseBlobReport(createZip({ "report.jsonl": '{"method": "onBegin"}\n{oops' })),
+    ).rejects.toThrow("Invalid JSON in blob report report.jsonl at line 2");
+    await expect(parseBlobReport(fixture("missing.zip"))).rejects.toThrow(
+      `File not found: ${fixture("missing.zip")}`,
+    );
+  });
+});
+
+describe("Compressed input", () => {
+  let dir: string;
+  let json: Buffer;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "compressed-"));
+    json = await fs.readFile(fixture("with-failures.json"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it("should parse gzip and brotli files detected by extension", async () => {
+    const expected = await parsePlaywrightJson(json, { runId: "run" });
+    await fs.writeFile(path.join(dir, "results.json.gz"), gzipSync(json));
+    await fs.writeFile(path.join(dir, "results.json.br"), brotliCompressSync(json));
+
+    for (const name of ["results.json.gz", "results.json.br"]) {
+      const run = await parsePlaywrightJson(path.join(dir, name), { runId: "run" });
+      expect(run).toEqual(expected);
+    }
+  });
+
+  it("should detect gzip by magic bytes regardless of extension", async () => {
+    const file = path.join(dir, "results.json");
+    await fs.writeFile(file, gzipSync(json));
+
+    const run = await parsePlaywrightJson(file);
+    expect(run.totals.total).toBe(21);
+  });
+
+  it("should decompress gzip and brotli Buffers", async () => {
+    const gzipped = await parsePlaywrightJson(gzipSync(json));
+    const brotli = await parsePlaywrightJson(brotliCompressSync(json));
+
+    expect(gzipped.totals.total).toBe(21);
+    expect(brotli.totals.total).toBe(21);
+  });
+
+  it("should keep the existing ValidationError messages for corrupt payloads", async () => {
+    const corrupt = gzipSync(json).subarray(0, 100);
+    const file = path.join(dir, "corrupt.json.gz");
+    await fs.writeFile(file, corrupt);
+
+    await expect(parsePlaywrightJson(file)).rejects.toThrow(
+      `Invalid JSON in file ${file}`,
+    );
+    await expect(parsePlaywrightJson(corrupt)).rejects.toThrow(ValidationError);
+    await expect(parsePlaywrightJson(corrupt)).rejects.toThrow(
+      "Invalid JSON in buffer",
+    );
+    await expect(parsePlaywrightJson(gzipSync("not json"))).rejects.toThrow(
+      "Invalid JSON in buffer",
+    );
+    // Data that is neither JSON nor compressed fails the same way when streamed
+    await expect(parsePlaywrightJson(Buffer.from("not json"))).rejects.toThrow(
+      "Invalid JSON in buffer: not JSON, gzip or brotli data",
+    );
+    await expect(
+      streamPlaywrightJson(Readable.from([Buffer.from("not json")]), {
+        onTest: () => {},
+      }),
+    ).rejects.toThrow("Invalid JSON in stream: not JSON, gzip or brotli data");
+  });
+
+  it("should stream compressed files and streams", async () => {
+    const file = path.join(dir, "stream.json.gz");
+    await fs.writeFile(file, gzipSync(json));
+    const { tests, ...expected } = await parsePlaywrightJson(json, { runId: "run" });
+
+    const fromFile: NormalizedTest[] = [];
+    const summary = await streamPlaywrightJson(file, {
+      runId: "run",
+      onTest: (test) => {
+        fromFile.push(test);
+      },
+    });
+    expect(summary).toEqual(expected);
+    expect(fromFile).toHaveLength(tests.length);
+
+    const brotli = brotliCompressSync(json);
+    async function* chunks(): AsyncGenerator<Buffer> {
+      for (let i = 0; i < brotli.length; i += 100) yield brotli.subarray(i, i + 100);
+    }
+    // Brotli has no magic bytes, so streams are sniffed like Buffers
+    const fromBrotli = await streamPlaywrightJson(chunks(), {
+      runId: "run",
+      onTest: () => {},
+    });
+    expect(fromBrotli).toEqual(expected);
+
+    let count = 0;
+    for await (const test of iterateTests(createReadStream(file))) {
+      expect(test.id).toBeDefined();
+      count++;
+    }
+    expect(count).toBe(tests.length);
+  });
+
+  it("should report corrupt compressed streams as invalid JSON", async () => {
+    const file = path.join(dir, "corrupt-stream.json.gz");
+    await fs.writeFile(file, gzipSync(json).subarray(0, 200));
+
+    await expect(streamPlaywrightJson(file, { onTest: () => {} })).rejects.toThrow(
+      `Invalid JSON in file ${file}`,
+    );
+  });
+});
+
+describe("Lenient mode", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+
+  /** A report from a hypothetical newer Playwright with a few unexpected values */
+  async function loadOddReport(): Promise<PlaywrightJsonReport> {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+    const suite = report.suites[0]!.suites![0]!;
+    const spec = JSON.parse(JSON.stringify(suite.specs![1])) as unknown;
+    Object.assign(suite.specs![0]!.tests[0]!.results[0]!, { status: "quarantined" });
+    Object.assign(suite, { suites: [{ title: 42, specs: [spec] }] });
+    Object.assign(report.config, { workers: "auto" });
+    Object.assign(report.stats!, { duration: "44s" });
+    Object.assign(report, { errors: [{ message: "Worker crashed" }, { message: 1 }] });
+    return report;
+  }
+
+  it("should keep throwing in strict mode", async () => {
+    const report = await loadOddReport();
+    await expect(parsePlaywrightJson(report)).rejects.toThrow(ValidationError);
+    await expect(parsePlaywrightJson(report, { mode: "strict" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it("should salvage valid suites and specs with a warning for each skipped part", async () => {
+    const run = await parsePlaywrightJson(await loadOddReport(), { mode: "lenient" });
+
+    expect(run.tests).toHaveLength(20);
+    expect(run.errors).toHaveLength(1);
+    expect(run.duration).toBe(0);
+    expect(run.warnings!.map((warning) => warning.path)).toEqual([
+      "$.config.workers",
+      "$.suites[0].suites[0].suites[0]",
+      "$.suites[0].suites[0].specs[0]",
+      "$.errors[1]",
+      "$.stats",
+    ]);
+    expect(run.warnings![2]!.message).toContain("Skipped invalid spec: Invalid option");
+    expect(run.warnings![2]!.message).toContain(
+      "at $.suites[0].suites[0].specs[0].tests[0].results[0].status",
+    );
+  });
+
+  it("should drop invalid project fields and projects without the others", async () => {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+    const projects = report.config.projects!;
+    Object.assign(projects[0]!, { timeout: "x", retries: 1 });
+    Object.assign(projects[2]!, { name: 3 });
+
+    const run = await parsePlaywrightJson(report, { mode: "lenient" });
+
+    expect(Object.keys(run.projectConfigs!)).toEqual(["chromium", "firefox"]);
+    expect(run.projectConfigs!.chromium).toMatchObject({ timeout: 30000, retries: 1 });
+    expect(run.warnings!.map((warning) => warning.path)).toEqual([
+      "$.config.projects[0].timeout",
+      "$.config.projects[2]",
+    ]);
+    expect(run.warnings![0]!.message).toBe(
+      "Dropped invalid project field: Invalid input: expected number, received string at $.config.projects[0].timeout",
+    );
+    expect(run.warnings![1]!.message).toContain("Skipped invalid project:");
+  });
+
+  it("should return the same run as strict mode for valid reports", async () => {
+    const strict = await parsePlaywrightJson(file, { runId: "run" });
+    const lenient = await parsePlaywrightJson(file, { runId: "run", mode: "lenient" });
+
+    expect(lenient).toEqual(strict);
+    expect(lenient.warnings).toEqual([]);
+  });
+
+  it("should not salvage input that is not a report object", async () => {
+    await expect(parsePlaywrightJson([], { mode: "lenient" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it("should skip invalid specs while streaming", async () => {
+    const report = await loadOddReport();
+    delete report.suites[0]!.suites![0]!.suites;
+
+    const tests: NormalizedTest[] = [];
+    const summary = await streamPlaywrightJson(
+      Readable.from([JSON.stringify(report)]),
+      {
+        mode: "lenient",
+        onTest: (test) => {
+          tests.push(test);
+        },
+      },
+    );
+
+    expect(tests).toHaveLength(20);
+    expect(summary.totals.total).toBe(20);
+    expect(summary.warnings!.map((warning) => warning.path)).toEqual([
+      "$.suites[0].suites[0].specs[0]",
+      "$.config.workers",
+      "$.errors[1]",
+      "$.stats",
+    ]);
+    await expect(
+      streamPlaywrightJson(Readable.from([JSON.stringify(report)]), {
+        onTest: () => {},
+      }),
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+describe("Stream input and cancellation", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+  let json: Buffer;
+
+  beforeAll(async () => {
+    json = await fs.readFile(file);
+  });
+
+  it("should parse Node and web streams", async () => {
+    const expected = await parsePlaywrightJson(json, { runId: "run" });
+
+    const fromNode = await parsePlaywrightJson(createReadStream(file), {
+      runId: "run",
+    });
+    const fromWeb = await parsePlaywrightJson(Readable.toWeb(createReadStream(file)), {
+      runId: "run",
+    });
+    // Web streams without async iteration are read through their reader
+    const web = Readable.toWeb(Readable.from([gzipSync(json)]));
+    const fromReader = await parsePlaywrightJson(
+      { getReader: () => web.getReader() } as unknown as ReadableStream<Uint8Array>,
+      { runId: "run" },
+    );
+
+    expect(fromNode).toEqual(expected);
+    expect(fromWeb).toEqual(expected);
+    expect(fromReader).toEqual(expected);
+  });
+
+  it("should read stdin for '-'", async () => {
+    const stdin = vi.spyOn(process, "stdin", "get");
+    try {
+      stdin.mockReturnValue(Readable.from([json]) as typeof process.stdin);
+      const run = await parsePlaywrightJson("-");
+      expect(run.totals.total).toBe(21);
+
+      stdin.mockReturnValue(Readable.from([json]) as typeof process.stdin);
+      let count = 0;
+      await streamPlaywrightJson("-", {
+        onTest: () => {
+          count++;
+        },
+      });
+      expect(count).toBe(21);
+
+      stdin.mockReturnValue(Readable.from(["{"]) as typeof process.stdin);
+      await expect(parsePlaywrightJson("-")).rejects.toThrow("Invalid JSON in stdin");
+    } finally {
+      stdin.mockRestore();
+    }
+  });
+
+  it("should report malformed streams as invalid JSON", async () => {
+    await expect(parsePlaywrightJson(Readable.from(["{"]))).rejects.toThrow(
+      "Invalid JSON in stream",
+    );
+  });
+
+  it("should reject with the signal's reason once aborted", async () => {
+    const signal = AbortSignal.abort();
+    const report = JSON.parse(json.toString("utf-8")) as object;
+
+    await expect(parsePlaywrightJson(file, { signal })).rejects.toThrow(
+      expect.objectContaining({ name: "AbortError" }),
+    );
+    await expect(parsePlaywrightJson(report, { signal })).rejects.toThrow(
+      expect.objectContaining({ name: "AbortError" }),
+    );
+    await expect(
+      streamPlaywrightJson(file, { signal, onTest: () => {} }),
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+  });
+
+  it("should stop waiting for a stream that stalls", async () => {
+    const stalled = new PassThrough();
+    stalled.write(json.subarray(0, 100));
+    const controller = new AbortController();
+
+    const parsing = parsePlaywrightJson(stalled, { signal: controller.signal });
+    // Abort only once the written chunk is consumed and the next read waits
+    await delay(10);
+    controller.abort(new Error("Cancelled"));
+
+    await expect(parsing).rejects.toThrow("Cancelled");
+    expect(stalled.destroyed).toBe(true);
+  });
+
+  it("should stop waiting for a web stream that stalls", async () => {
+    let cancelled = false;
+    const stalled = new ReadableStream<Uint8Array>({
+      start(controller): void {
+        controller.enqueue(json.subarray(0, 100));
+      },
+      cancel(): void {
+        cancelled = true;
+      },
+    });
+    const controller = new AbortController();
+
+    const streaming = streamPlaywrightJson(stalled, { signal: controller.signal });
+    await delay(10);
+    controller.abort();
+
+    await expect(streaming).rejects.toThrow(
+      expect.objectContaining({ name: "AbortError" }),
+    );
+    expect(cancelled).toBe(true);
+  });
+
+  it("should stop streaming and iterating tests when aborted", async () => {
+    const controller = new AbortController();
+    const seen: NormalizedTest[] = [];
+    await expect(
+      streamPlaywrightJson(createReadStream(file, { highWaterMark: 64 }), {
+        signal: controller.signal,
+        onTest: (test) => {
+          seen.push(test);
+          controller.abort();
+        },
+      }),
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+    expect(seen).toHaveLength(1);
+
+    const iteration = new AbortController();
+    let count = 0;
+    await expect(async () => {
+      for await (const test of iterateTests(file, { signal: iteration.signal })) {
+        expect(test.id).toBeDefined();
+        if (++count === 3) iteration.abort();
+      }
+    }).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+    expect(count).toBe(3);
+  });
+});
+
+describe("Report directories", () => {
+  const fixtures = path.join(__dirname, "fixtures");
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "reports-"));
+    for (const execution of ["first", "second"]) {
+      await fs.mkdir(path.join(dir, execution, "nested"), { recursive: true });
+      await fs.copyFile(
+        path.join(fixtures, "shard1.json"),
+        path.join(dir, execution, "shard1.json"),
+      );
+      await fs.writeFile(
+        path.join(dir, execution, "nested", "shard2.json.gz"),
+        gzipSync(await fs.readFile(path.join(fixtures, "shard2.json"))),
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it("should parse a directory and aggregate the shards of each execution", async () => {
+    const { executions, errors } = await parsePlaywrightReports(fixtures);
+
+    expect(
+      executions.map((execution) => execution.files.map((f) => path.basename(f))),
+    ).toEqual([
+      ["all-success.json"],
+      ["flaky-tests.json"],
+      ["shard1.json", "shard2.json"],
+      ["with-failures.json"],
+    ]);
+    const sharded = executions[2]!.run;
+    expect(sharded.shards).toHaveLength(2);
+    expect(sharded.totals.total).toBe(30);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.file).toBe(path.join(fixtures, "malformed.json"));
+    expect(errors[0]!.error).toBeInstanceOf(ValidationError);
+  });
+
+  it("should give each execution its own run ID", async () => {
+    const first = await parsePlaywrightReports(fixtures, { deterministicRunId: true });
+    const second = await parsePlaywrightReports(fixtures, { deterministicRunId: true });
+
+    const runIds = first.executions.map((execution) => execution.run.runId);
+    expect(new Set(runIds).size).toBe(runIds.length);
+    expect(second.executions.map((execution) => execution.run.runId)).toEqual(runIds);
+  });
+
+  it("should match globs and tell executions apart", async () => {
+    const { executions, errors } = await parsePlaywrightReports(
+      `${dir}/**/shard{1,2}.json{,.gz}`,
+    );
+
+    expect(errors).toEqual([]);
+    expect(executions.map((execution) => execution.files)).toEqual([
+      [
+        path.join(dir, "first/nested/shard2.json.gz"),
+        path.join(dir, "first/shard1.json"),
+      ],
+      [
+        path.join(dir, "second/nested/shard2.json.gz"),
+        path.join(dir, "second/shard1.json"),
+      ],
+    ]);
+    expect(executions[1]!.run.totals.total).toBe(30);
+
+    const shallow = await parsePlaywrightReports(`${dir}/*/shard?.json`);
+    expect(shallow.executions.map((execution) => execution.files)).toEqual([
+      [path.join(dir, "first/shard1.json")],
+      [path.join(dir, "second/shard1.json")],
+    ]);
+  });
+
+  it("should parse a bounded number of reports at a time", async () => {
+    const readFile = fs.readFile.bind(fs);
+    let active = 0;
+    let peak = 0;
+    const spy = vi.spyOn(fs, "readFile").mockImplementation((async (
+      ...args: Parameters<typeof fs.readFile>
+    ) => {
+      peak = Math.max(peak, ++active);
+      try {
+        return await readFile(...args);
+      } finally {
+        active--;
+      }
+    }) as typeof fs.readFile);
+
+    try {
+      const { executions } = await parsePlaywrightReports(fixtures, { concurrency: 2 });
+      expect(executions).toHaveLength(4);
+      expect(peak).toBe(2);
+    } finally {
+      spy.mockRestore();
+    }
+
+    await expect(parsePlaywrightReports(fixtures, { concurrency: 0 })).rejects.toThrow(
+      "Concurrency must be a positive integer",
+    );
+  });
+
+  it("should report missing directories and stop when aborted", async () => {
+    await expect(parsePlaywrightReports(path.join(dir, "missing"))).rejects.toThrow(
+      "File not found",
+    );
+    expect(await parsePlaywrightReports(`${dir}/missing/*.json`)).toEqual({
+      executions: [],
+      errors: [],
+    });
+    await expect(
+      parsePlaywrightReports(fixtures, { signal: AbortSignal.abort() }),
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+  });
+});
+
+describe("Report format compatibility", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+
+  /** A report in the older layout, with tests listed on suites */
+  function legacyReport(version?: string): PlaywrightJsonReport {
+    return {
+      config: { version },
+      suites: [
+        {
+          title: "login.spec.ts",
+          file: "login.spec.ts",
+          tests: [
+            {
+              title: "logs in",
+              location: { file: "login.spec.ts", line: 3, column: 5 },
+              tests: [
+                {
+                  projectName: "chromium",
+                  timeout: 30000,
+                  expectedStatus: "passed",
+                  results: [
+                    {
+                      workerIndex: 0,
+                      retry: 0,
+                      startTime: "2021-04-01T10:00:00.000Z",
+                      status: "failed",
+                      duration: 10,
+                      error: { message: "Timed out" },
+                    },
+                    {
+                      workerIndex: 1,
+                      retry: 1,
+                      startTime: "2021-04-01T10:00:01.000Z",
+                      status: "passed",
+                      duration: 20,
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    } as unknown as PlaywrightJsonReport;
+  }
+
+  it("should detect the version and no adapters for current reports", async () => {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as unknown;
+
+    expect(detectReportFormat(report)).toEqual({ version: "1.54.2", adapters: [] });
+  });
+
+  it("should list the adapters an older report needs", () => {
+    expect(detectReportFormat(legacyReport("1.10.0"))).toEqual({
+      version: "1.10.0",
+      adapters: ["suite-tests", "test-status", "result-errors"],
+    });
+    expect(detectReportFormat(legacyReport()).version).toBeUndefined();
+  });
+
+  it("should not modify the report it upgrades", async () => {
+    const report = legacyReport("1.10.0");
+    const copy = JSON.parse(JSON.stringify(report)) as unknown;
+
+    await parsePlaywrightJson(report);
+
+    expect(report).toEqual(copy);
+  });
+
+  it("should upgrade older layouts to the same run as the current layout", async () => {
+    const run = await parsePlaywrightJson(legacyReport("1.10.0"));
+
+    expect(run.playwrightVersion).toBe("1.10.0");
+    expect(run.warnings).toEqual([]);
+    expect(run.tests).toHaveLength(1);
+    expect(run.tests[0]).toMatchObject({
+      title: "logs in",
+      line: 3,
+      project: "chromium",
+      status: "flaky",
+      outcome: "flaky",
+    });
+    expect(run.tests[0]!.attempts[0]!.errors[0]!.message).toBe("Timed out");
+  });
+
+  it("should stream older layouts like parsing them whole", async () => {
+    const report = legacyReport("1.10.0");
+    const tests: NormalizedTest[] = [];
+
+    const summary = await streamPlaywrightJson(
+      Readable.from([JSON.stringify(report)]),
+      { onTest: (test) => void tests.push(test), runId: "run" },
+    );
+
+    const run = await parsePlaywrightJson(report, { runId: "run" });
+    expect(tests).toEqual(run.tests);
+    expect(summary.projects).toEqual(run.projects);
+  });
+
+  it("should report issues where they are in an older report", async () => {
+    const fixture = JSON.parse(
+      await fs.readFile(file, "utf-8"),
+    ) as PlaywrightJsonReport;
+    const report = legacyReport("1.10.0");
+    const suite = report.suites[0]! as unknown as {
+      specs: unknown[];
+      tests: { location: object; tests: { results: object[] }[] }[];
+    };
+    suite.specs = [fixture.suites[0]!.suites![0]!.specs![0]];
+    Object.assign(suite.tests[0]!.tests[0]!.results[0]!, { workerIndex: "0" });
+    Object.assign(suite.tests[0]!.location, { line: "3" });
+    const paths = [
+      "$.suites[0].tests[0].location.line",
+      "$.suites[0].tests[0].tests[0].results[0].workerIndex",
+    ];
+
+    const error = await parsePlaywrightJson(report).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ValidationError);
+    const diagnostics = (error as ValidationError).diagnostics;
+    expect(diagnostics.map((diagnostic) => diagnostic.path).sort()).toEqual(paths);
+    expect(diagnostics.map((diagnostic) => diagnostic.value).sort()).toEqual([
+      '"0"',
+      '"3"',
+    ]);
+
+    const streamed = await streamPlaywrightJson(
+      Readable.from([JSON.stringify(report)]),
+      {
+        onTest: () => undefined,
+      },
+    ).catch((caught: unknown) => caught);
+    expect(
+      (streamed as ValidationError).diagnostics
+        .map((diagnostic) => diagnostic.path)
+        .sort(),
+    ).toEqual(paths);
+
+    const lenient = await parsePlaywrightJson(report, { mode: "lenient" });
+    expect(lenient.tests).toHaveLength(1);
+    expect(lenient.warnings).toHaveLength(1);
+    expect(lenient.warnings![0]!.path).toBe("$.suites[0].tests[0]");
+    expect(lenient.warnings![0]!.message).toContain(`at ${paths[0]}`);
+    expect(lenient.warnings![0]!.message).toContain(`at ${paths[1]}`);
+  });
+
+  it("should warn about reports from untested Playwright versions", async () => {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+    Object.assign(report.config, { version: "9.1.0" });
+
+    const run = await parsePlaywrightJson(report);
+
+    expect(run.playwrightVersion).toBe("9.1.0");
+    expect(run.warnings).toEqual([
+      {
+        path: "$.config.version",
+        message: `Report written by Playwright 9.1.0, newer than the newest tested version ${TESTED_PLAYWRIGHT_VERSION}`,
+      },
+    ]);
+
+    Object.assign(report.config, { version: "next" });
+    expect((await parsePlaywrightJson(report)).warnings![0]!.message).toBe(
+      'Unrecognized Playwright version "next"',
+    );
+  });
+});
+
+describe("Stats integrity", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+
+  async function loadReport(): Promise<PlaywrightJsonReport> {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+  }
+
+  it("should not warn when the totals match the report stats", async () => {
+    const run = await parsePlaywrightJson(file);
+
+    expect(run.totals.passed).toBe(9);
+    expect(run.totals.failed).toBe(12);
+    expect(run.warnings).toEqual([]);
+  });
+
+  it("should warn about tests without results and the counts they change", async () => {
+    const report = await loadReport();
+    report.suites[0]!.suites![0]!.specs![0]!.tests[0]!.results = [];
+
+    const run = await parsePlaywrightJson(report);
+
+    expect(run.totals.passed).toBe(8);
+    expect(run.warnings).toEqual([
+      {
+        path: "$.suites[0].suites[0].specs[0].tests[0]",
+        message:
+          "Left out test without results: should have correct page title (PASS) [chromium]",
+      },
+      {
+        path: "$.stats.expected",
+        message: "Report stats count 9 expected tests, but 8 passed tests were parsed",
+      },
+    ]);
+  });
+
+  it("should report the same discrepancies when streaming", async () => {
+    const report = await loadReport();
+    report.suites[0]!.suites![0]!.specs![0]!.tests[0]!.results = [];
+    Object.assign(report.stats!, { unexpected: 13 });
+
+    const summary = await streamPlaywrightJson(
+      Readable.from([JSON.stringify(report)]),
+      { onTest: () => undefined },
+    );
+
+    expect(summary.warnings).toEqual((await parsePlaywrightJson(report)).warnings);
+    expect(summary.warnings!.map((warning) => warning.path)).toEqual([
+      "$.suites[0].suites[0].specs[0].tests[0]",
+      "$.stats.expected",
+      "$.stats.unexpected",
+    ]);
+  });
+});
+
+describe("Test inventory", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+
+  /** The report `playwright test --list --reporter=json` writes for the same tests */
+  async function loadListReport(): Promise<PlaywrightJsonReport> {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+    const clear = (suites: PlaywrightJsonReport["suites"]): void => {
+      for (const suite of suites) {
+        clear(suite.suites ?? []);
+        for (const test of (suite.specs ?? []).flatMap((spec) => spec.tests)) {
+          Object.assign(test, { results: [], status: "skipped" });
+        }
+      }
+    };
+    clear(report.suites);
+    Object.assign(report.stats!, { expected: 0, unexpected: 0, skipped: 21 });
+    return report;
+  }
+
+  it("should list tests that did not run", async () => {
+    const report = await loadListReport();
+
+    expect((await parsePlaywrightJson(report)).tests).toEqual([]);
+
+    const inventory = await parseTestInventory(report);
+    expect(inventory.tests).toHaveLength(21);
+    expect(inventory.projects).toEqual(["chromium", "firefox", "webkit"]);
+    expect(inventory.playwrightVersion).toBe("1.54.2");
+    expect(inventory.warnings).toEqual([]);
+    expect(inventory.tests[0]).toEqual({
+      id: expect.stringMatching(/^[0-9a-f]{20}$/),
+      title: "should have correct page title (PASS)",
+      fullTitle:
+        "02-with-failures.spec.ts › With Failures Scenario › should have correct page title (PASS)",
+      suitePath: ["02-with-failures.spec.ts", "With Failures Scenario"],
+      file: "02-with-failures.spec.ts",
+      line: 4,
+      column: 7,
+      project: "chromium",
+      tags: [],
+      annotations: [],
+      expectedStatus: "passed",
+      timeout: 30000,
+    });
+  });
+
+  it("should use the same test IDs as a run of the tests", async () => {
+    const run = await parsePlaywrightJson(file);
+    const inventory = await parseTestInventory(await loadListReport());
+
+    expect(inventory.tests.map((test) => test.id)).toEqual(
+      run.tests.map((test) => test.id),
+    );
+  });
+
+  it("should read files, older layouts and lenient mode like parsePlaywrightJson", async () => {
+    expect((await parseTestInventory(file)).tests).toHaveLength(21);
+
+    const legacy = {
+      config: {},
+      suites: [
+        {
+          title: "Suite",
+          tests: [
+            {
+              title: "declared",
+              location: { file: "a.spec.ts", line: 2, column: 3 },
+              tests: [{ timeout: 5000, expectedStatus: "failed", results: [] }],
+            },
+          ],
+        },
+      ],
+    };
+    expect((await parseTestInventory(legacy)).tests[0]).toMatchObject({
+      fullTitle: "Suite › declared",
+      file: "a.spec.ts",
+      project: "default",
+      expectedStatus: "failed",
+    });
+
+    const report = await loadListReport();
+    Object.assign(report.suites[0]!, { suites: [{ title: 1 }] });
+    await expect(parseTestInventory(report)).rejects.toThrow(ValidationError);
+    const inventory = await parseTestInventory(report, { mode: "lenient" });
+    expect(inventory.tests).toEqual([]);
+    expect(inventory.warnings!.map((warning) => warning.path)).toEqual([
+      "$.suites[0].suites[0]",
+    ]);
+  });
+});
 
-    expect(result.tests[0].file).toBe("unknown");
-    expect(result.tests[0].line).toBe(0);
-    expect(result.tests[0].column).toBe(0);
+describe("Project configs", () => {
+  const file = path.join(__dirname, "fixtures", "with-failures.json");
+
+  it("should expose the configuration of each project", async () => {
+    const run = await parsePlaywrightJson(file);
+
+    expect(Object.keys(run.projectConfigs!)).toEqual(["chromium", "firefox", "webkit"]);
+    expect(run.projectConfigs!.chromium).toEqual({
+      name: "chromium",
+      timeout: 30000,
+      retries: 0,
+      repeatEach: 1,
+      dependencies: [],
+      testDir: expect.stringContaining("sample/tests"),
+      metadata: { actualWorkers: 7 },
+    });
   });
 
-  it("should extract run timestamps", async () => {
-    const filePath = path.join(__dirname, "fixtures", "all-success.json");
-    const result = await parsePlaywrightJson(filePath);
+  it("should apply Playwright's defaults and read the browser from use", async () => {
+    const report = JSON.parse(await fs.readFile(file, "utf-8")) as PlaywrightJsonReport;
+    Object.assign(report.config, {
+      projects: [
+        { name: "setup" },
+        {
+          name: "Mobile Chrome",
+          retries: 2,
+          dependencies: ["setup"],
+          use: {
+            defaultBrowserType: "chromium",
+            channel: "chrome",
+            viewport: { width: 393, height: 851 },
+            isMobile: true,
+          },
+        },
+        { name: "firefox", use: { browserName: "firefox", viewport: null } },
+        { name: "webkit", use: { browserName: 1, viewport: { width: "1280" } } },
+      ],
+    });
 
-    expect(result.startedAt).toBeDefined();
-    expect(result.endedAt).toBeDefined();
-    expect(result.duration).toBeGreaterThan(0);
+    const run = await parsePlaywrightJson(report);
+
+    expect(run.projectConfigs!.setup).toEqual({
+      name: "setup",
+      timeout: 30000,
+      retries: 0,
+      repeatEach: 1,
+      dependencies: [],
+    });
+    expect(run.projectConfigs!["Mobile Chrome"]).toMatchObject({
+      retries: 2,
+      dependencies: ["setup"],
+      browserName: "chromium",
+      channel: "chrome",
+      viewport: { width: 393, height: 851 },
+      isMobile: true,
+    });
+    expect(run.projectConfigs!.firefox).toMatchObject({
+      browserName: "firefox",
+      viewport: null,
+    });
+    expect(run.projectConfigs!.webkit!.browserName).toBeUndefined();
+    expect(run.projectConfigs!.webkit!.viewport).toBeUndefined();
+  });
+
+  it("should be empty when the config lists no projects", async () => {
+    const run = await parsePlaywrightJson({ config: {}, suites: [] });
+
+    expect(run.projectConfigs).toEqual({});
   });
 });
 
@@ -1435,6 +3368,205 @@ describe("Parser Advanced Features", () => {
         expect(test.error).toBeUndefined(); // Last attempt succeeded
       });
 
+      it("should preserve every attempt including failed retries", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "Suite",
+              tests: [
+                {
+                  title: "Test with retries",
+                  tests: [
+                    {
+                      timeout: 30000,
+                      expectedStatus: "passed",
+                      results: [
+                        {
+                          workerIndex: 1,
+                          parallelIndex: 0,
+                          status: "timedOut",
+                          duration: 30000,
+                          retry: 0,
+                          startTime: "2024-01-01T00:00:00.000Z",
+                          error: { message: "Test timeout of 30000ms exceeded." },
+                          attachments: [
+                            {
+                              name: "trace",
+                              contentType: "application/zip",
+                              path: "/tmp/trace.zip",
+                            },
+                          ],
+                        },
+                        {
+                          workerIndex: 2,
+                          parallelIndex: 1,
+                          status: "failed",
+                          duration: 75,
+                          retry: 1,
+                          startTime: "2024-01-01T00:00:31.000Z",
+                          errors: [
+                            { message: "First error" },
+                            { message: "Second error" },
+                          ],
+                        },
+                        {
+                          workerIndex: 3,
+                          duration: 100,
+                          retry: 2,
+                          startTime: "2024-01-01T00:00:32.000Z",
+                        },
+                      ],
+                      status: "flaky",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const normalized = normalizeTestRun(report);
+        const attempts = normalized.tests[0].attempts!;
+
+        expect(attempts).toHaveLength(3);
+        expect(attempts[0]).toEqual({
+          retry: 0,
+          status: "timedOut",
+          duration: 30000,
+          startTime: "2024-01-01T00:00:00.000Z",
+          workerIndex: 1,
+          parallelIndex: 0,
+          errors: [
+            expect.objectContaining({ message: "Test timeout of 30000ms exceeded." }),
+          ],
+          attachments: [
+            { name: "trace", contentType: "application/zip", path: "/tmp/trace.zip" },
+          ],
+          steps: [],
+          stdout: [],
+          stderr: [],
+        });
+        expect(attempts[1].status).toBe("failed");
+        expect(attempts[1].errors.map((e) => e.message)).toEqual([
+          "First error",
+          "Second error",
+        ]);
+        // Missing status is inferred from the absence of errors
+        expect(attempts[2].status).toBe("passed");
+        expect(attempts[2].errors).toEqual([]);
+        expect(attempts[2].parallelIndex).toBeUndefined();
+      });
+
+      it("should normalize the nested step tree of each attempt", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "Suite",
+              tests: [
+                {
+                  title: "Test with steps",
+                  tests: [
+                    {
+                      timeout: 30000,
+                      expectedStatus: "passed",
+                      results: [
+                        {
+                          workerIndex: 0,
+                          status: "failed",
+                          duration: 500,
+                          retry: 0,
+                          startTime: "2024-01-01T00:00:00.000Z",
+                          steps: [
+                            {
+                              title: "open page",
+                              duration: 400,
+                              error: { message: "Navigation failed" },
+                              steps: [
+                                {
+                                  title: "page.goto(https://example.com)",
+                                  duration: 390,
+                                  error: { message: "Navigation failed" },
+                                },
+                              ],
+                            },
+                          ],
+                        },
+                      ],
+                      status: "unexpected",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const normalized = normalizeTestRun(report);
+        const steps = normalized.tests[0].attempts![0].steps;
+
+        expect(steps).toHaveLength(1);
+        expect(steps[0].title).toBe("open page");
+        expect(steps[0].duration).toBe(400);
+        expect(steps[0].error?.message).toBe("Navigation failed");
+        expect(steps[0].steps).toEqual([
+          {
+            title: "page.goto(https://example.com)",
+            duration: 390,
+            error: expect.objectContaining({ message: "Navigation failed" }),
+            steps: [],
+          },
+        ]);
+      });
+
+      it("should decode stdout and stderr chunks per attempt", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "Suite",
+              tests: [
+                {
+                  title: "Test with output",
+                  tests: [
+                    {
+                      timeout: 30000,
+                      expectedStatus: "passed",
+                      results: [
+                        {
+                          workerIndex: 0,
+                          duration: 100,
+                          retry: 0,
+                          startTime: "2024-01-01T00:00:00.000Z",
+                          stdout: [
+                            "plain line\n",
+                            { text: "text line\n" },
+                            { buffer: Buffer.from("binary line\n").toString("base64") },
+                          ],
+                          stderr: [{ text: "warning: " }, { text: "slow\n" }],
+                        },
+                      ],
+                      status: "expected",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const normalized = normalizeTestRun(report);
+        const attempt = normalized.tests[0].attempts![0];
+
+        expect(attempt.stdout).toEqual([
+          "plain line\n",
+          "text line\n",
+          "binary line\n",
+        ]);
+        expect(attempt.stderr).toEqual(["warning: ", "slow\n"]);
+      });
+
       it("should preserve full hierarchy in nested suite structures", () => {
         const report: PlaywrightJsonReport = {
           config: {},
@@ -1758,6 +3890,150 @@ describe("Parser Advanced Features", () => {
         expect(normalized.tests).toHaveLength(1);
         expect(normalized.tests[0].error?.message).toBe("Error from errors array");
       });
+
+      it("should keep every error of soft assertions with locations", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "Suite",
+              tests: [
+                {
+                  title: "Soft assertions",
+                  tests: [
+                    {
+                      timeout: 30000,
+                      expectedStatus: "passed",
+                      results: [
+                        {
+                          workerIndex: 0,
+                          duration: 100,
+                          retry: 0,
+                          startTime: "2024-01-01T00:00:00.000Z",
+                          error: { message: "First soft failure" },
+                          errors: [
+                            {
+                              message: "First soft failure",
+                              location: {
+                                file: "/repo/soft.spec.ts",
+                                line: 5,
+                                column: 3,
+                              },
+                            },
+                            {
+                              message: "Second soft failure",
+                              location: {
+                                file: "/repo/pages/login.ts",
+                                line: 12,
+                                column: 9,
+                              },
+                            },
+                          ],
+                        },
+                      ],
+                      status: "unexpected",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const test = normalizeTestRun(report).tests[0];
+
+        expect(test.error?.message).toBe("First soft failure");
+        expect(test.errors).toHaveLength(2);
+        expect(test.errors![1]).toMatchObject({
+          message: "Second soft failure",
+          file: "/repo/pages/login.ts",
+          line: 12,
+          column: 9,
+        });
+      });
+    });
+
+    describe("Tags", () => {
+      it("should merge spec tags with inline title tags and deduplicate", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "checkout.spec.ts",
+              file: "checkout.spec.ts",
+              suites: [
+                {
+                  title: "Checkout @payments",
+                  file: "checkout.spec.ts",
+                  specs: [
+                    {
+                      title: "pays with card @smoke @smoke contact me@example.com",
+                      ok: true,
+                      tags: ["smoke", "@payments", " @critical "],
+                      tests: [
+                        {
+                          timeout: 30000,
+                          expectedStatus: "passed",
+                          projectName: "chromium",
+                          results: [
+                            {
+                              workerIndex: 0,
+                              duration: 100,
+                              retry: 0,
+                              startTime: "2024-01-01T00:00:00.000Z",
+                            },
+                          ],
+                          status: "expected",
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const normalized = normalizeTestRun(report);
+        expect(normalized.tests[0].tags).toEqual(["@smoke", "@payments", "@critical"]);
+      });
+
+      it("should read tags from the older suite.tests format", () => {
+        const report: PlaywrightJsonReport = {
+          config: {},
+          suites: [
+            {
+              title: "Suite",
+              tests: [
+                {
+                  title: "legacy test @slow",
+                  tags: ["regression"],
+                  tests: [
+                    {
+                      timeout: 30000,
+                      expectedStatus: "passed",
+                      results: [],
+                      status: "skipped",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as unknown as PlaywrightJsonReport;
+
+        const normalized = normalizeTestRun(report);
+        expect(normalized.tests[0].tags).toEqual(["@regression", "@slow"]);
+      });
+
+      it("should produce empty tags for untagged fixture tests", async () => {
+        const filePath = path.join(__dirname, "fixtures", "all-success.json");
+        const result = await parsePlaywrightJson(filePath);
+
+        result.tests.forEach((test) => {
+          expect(test.tags).toEqual([]);
+        });
+      });
     });
   });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   filterTests,
+  filterTestStream,
   filterPredicates,
   combinePredicates,
   combinePredicatesOr,
@@ -18,11 +19,22 @@ import {
   allTestsPassed,
   hasFailures,
   hasFlakyTests,
+  hasRunErrors,
   aggregateShardedRuns,
   areRunsFromSameExecution,
   calculateStatistics,
+  flattenSteps,
+  findFailingStep,
+  getSlowestSteps,
+  getOutputLines,
+  searchOutput,
+  parseStackFrames,
+  stripAnsi,
+  hasAnsi,
+  parseAssertionDetails,
   type NormalizedTestRun,
   type NormalizedTest,
+  type NormalizedStep,
 } from "../src/index.js";
 import { normalizeTestRun } from "../src/parser/normalizer.js";
 import { validatePlaywrightJson, ValidationError } from "../src/parser/validator.js";
@@ -155,6 +167,94 @@ describe("Filter Utilities", () => {
       expect(filterPredicates.withAttachments(test2)).toBe(false);
       expect(filterPredicates.withAttachments(test3)).toBe(false);
     });
+
+    it("should filter by outcome", () => {
+      const timedOut = createTest({ status: "failed", outcome: "timedOut" });
+      const interrupted = createTest({ status: "skipped", outcome: "interrupted" });
+      const expectedFailure = createTest({
+        status: "passed",
+        outcome: "expectedFailure",
+      });
+      const legacy = createTest({ status: "failed" });
+
+      expect(filterPredicates.timedOut(timedOut)).toBe(true);
+      expect(filterPredicates.timedOut(legacy)).toBe(false);
+      expect(filterPredicates.interrupted(interrupted)).toBe(true);
+      expect(filterPredicates.expectedFailure(expectedFailure)).toBe(true);
+      expect(filterPredicates.expectedFailure(timedOut)).toBe(false);
+
+      const failing = filterPredicates.byOutcome(["failed", "timedOut"]);
+      expect(failing(timedOut)).toBe(true);
+      expect(failing(legacy)).toBe(true);
+      expect(failing(expectedFailure)).toBe(false);
+      expect(filterPredicates.byOutcome("interrupted")(interrupted)).toBe(true);
+    });
+
+    it("should filter by tag with or without the leading @", () => {
+      const test1 = createTest({ tags: ["@smoke", "@auth"] });
+      const test2 = createTest({ tags: ["@regression"] });
+      const test3 = createTest({ tags: undefined });
+
+      expect(filterPredicates.byTag("@smoke")(test1)).toBe(true);
+      expect(filterPredicates.byTag("smoke")(test1)).toBe(true);
+      expect(filterPredicates.byTag("smoke")(test2)).toBe(false);
+      expect(filterPredicates.byTag("smoke")(test3)).toBe(false);
+    });
+
+    it("should filter by any or all of several tags", () => {
+      const test1 = createTest({ tags: ["@smoke", "@auth"] });
+      const test2 = createTest({ tags: ["@smoke"] });
+      const test3 = createTest({ tags: ["@regression"] });
+
+      const anyPredicate = filterPredicates.byAnyTag(["auth", "@regression"]);
+      expect(anyPredicate(test1)).toBe(true);
+      expect(anyPredicate(test2)).toBe(false);
+      expect(anyPredicate(test3)).toBe(true);
+
+      const allPredicate = filterPredicates.byAllTags(["@smoke", "auth"]);
+      expect(allPredicate(test1)).toBe(true);
+      expect(allPredicate(test2)).toBe(false);
+      expect(allPredicate(test3)).toBe(false);
+    });
+  });
+
+  describe("filterTestStream", () => {
+    it("should yield only matching tests from an async stream", async () => {
+      const tests = [
+        createTest({ id: "1", status: "failed", tags: ["@smoke"] }),
+        createTest({ id: "2", status: "passed", tags: ["@smoke"] }),
+        createTest({ id: "3", status: "failed" }),
+      ];
+
+      async function* stream(): AsyncGenerator<NormalizedTest> {
+        yield* tests;
+      }
+
+      const filtered: string[] = [];
+      const predicate = combinePredicates(
+        filterPredicates.failed,
+        filterPredicates.byTag("smoke"),
+      );
+      for await (const test of filterTestStream(stream(), predicate)) {
+        filtered.push(test.id);
+      }
+
+      expect(filtered).toEqual(["1"]);
+    });
+
+    it("should accept sync iterables", async () => {
+      const tests = [
+        createTest({ id: "1", status: "failed" }),
+        createTest({ id: "2" }),
+      ];
+
+      const filtered: string[] = [];
+      for await (const test of filterTestStream(tests, filterPredicates.failed)) {
+        filtered.push(test.id);
+      }
+
+      expect(filtered).toEqual(["1"]);
+    });
   });
 
   describe("combinePredicates", () => {
@@ -330,6 +430,291 @@ describe("Sort Utilities", () => {
   });
 });
 
+describe("Step Utilities", () => {
+  const step = (
+    title: string,
+    duration: number,
+    steps: NormalizedStep[] = [],
+    error?: string,
+  ): NormalizedStep => ({
+    title,
+    duration,
+    steps,
+    error: error ? { message: error } : undefined,
+  });
+
+  const steps: NormalizedStep[] = [
+    step("Before Hooks", 300, [step("browserContext.newPage", 250)]),
+    step(
+      "login",
+      1200,
+      [
+        step("page.goto(/login)", 900),
+        step("expect.toBeVisible", 200, [], "Timed out"),
+        step("page.click(#submit)", 50),
+      ],
+      "Timed out",
+    ),
+    step("After Hooks", 20),
+  ];
+
+  describe("flattenSteps", () => {
+    it("should list steps depth-first with their title paths", () => {
+      const flat = flattenSteps(steps);
+
+      expect(flat.map((entry) => entry.step.title)).toEqual([
+        "Before Hooks",
+        "browserContext.newPage",
+        "login",
+        "page.goto(/login)",
+        "expect.toBeVisible",
+        "page.click(#submit)",
+        "After Hooks",
+      ]);
+      expect(flat[4]!.path).toEqual(["login", "expect.toBeVisible"]);
+      expect(flat[4]!.depth).toBe(1);
+      expect(flat[0]!.depth).toBe(0);
+    });
+
+    it("should return an empty list for no steps", () => {
+      expect(flattenSteps([])).toEqual([]);
+    });
+  });
+
+  describe("findFailingStep", () => {
+    it("should return the innermost failing step", () => {
+      const failing = findFailingStep(steps);
+
+      expect(failing?.step.title).toBe("expect.toBeVisible");
+      expect(failing?.path).toEqual(["login", "expect.toBeVisible"]);
+    });
+
+    it("should return the failing step itself when it has no failing children", () => {
+      const failing = findFailingStep([step("fixture: page", 10, [], "Crashed")]);
+      expect(failing?.step.title).toBe("fixture: page");
+    });
+
+    it("should return undefined when no step failed", () => {
+      expect(findFailingStep([step("a", 1, [step("b", 1)])])).toBeUndefined();
+    });
+  });
+
+  describe("getSlowestSteps", () => {
+    it("should rank steps across tests and attempts", () => {
+      const attempt = (
+        retry: number,
+        attemptSteps: NormalizedStep[],
+      ): NonNullable<NormalizedTest["attempts"]>[number] => ({
+        retry,
+        status: "passed",
+        duration: 0,
+        startTime: "2024-01-01T10:00:00.000Z",
+        workerIndex: 0,
+        errors: [],
+        attachments: [],
+        steps: attemptSteps,
+      });
+
+      const run = {
+        tests: [
+          { id: "1", attempts: [attempt(0, steps)] },
+          {
+            id: "2",
+            attempts: [attempt(0, []), attempt(1, [step("page.goto(/)", 1000)])],
+          },
+          { id: "3" },
+        ],
+      } as unknown as NormalizedTestRun;
+
+      const slowest = getSlowestSteps(run, 3);
+
+      expect(slowest.map((entry) => entry.step.title)).toEqual([
+        "login",
+        "page.goto(/)",
+        "page.goto(/login)",
+      ]);
+      expect(slowest[1]!.test.id).toBe("2");
+      expect(slowest[1]!.retry).toBe(1);
+      expect(getSlowestSteps(run)).toHaveLength(8);
+    });
+  });
+});
+
+describe("Output Utilities", () => {
+  const createRun = (
+    attempts: Array<{ retry: number; stdout?: string[]; stderr?: string[] }>,
+  ): NormalizedTestRun =>
+    ({
+      tests: [{ id: "1", attempts }, { id: "2" }],
+    }) as unknown as NormalizedTestRun;
+
+  describe("getOutputLines", () => {
+    it("should join chunks before splitting into lines", () => {
+      expect(getOutputLines(["first li", "ne\nsecond\r\n", "third\n"])).toEqual([
+        "first line",
+        "second",
+        "third",
+      ]);
+    });
+
+    it("should keep empty lines and unterminated last lines", () => {
+      expect(getOutputLines(["a\n\nb"])).toEqual(["a", "", "b"]);
+      expect(getOutputLines([])).toEqual([]);
+    });
+  });
+
+  describe("searchOutput", () => {
+    it("should find matching lines in stdout and stderr", () => {
+      const run = createRun([
+        { retry: 0, stdout: ["GET /api 500\n", "GET /home 200\n"], stderr: [] },
+        { retry: 1, stdout: [], stderr: ["console error: GET /api 500\n"] },
+      ]);
+
+      const matches = searchOutput(run, "/api 500");
+
+      expect(matches).toHaveLength(2);
+      expect(matches[0]).toMatchObject({ retry: 0, stream: "stdout", lineNumber: 1 });
+      expect(matches[1]).toMatchObject({
+        retry: 1,
+        stream: "stderr",
+        line: "console error: GET /api 500",
+      });
+      expect(matches[1]!.test.id).toBe("1");
+    });
+
+    it("should match every line with a global regex", () => {
+      const run = createRun([
+        { retry: 0, stdout: ["error one\nerror two\n"], stderr: [] },
+      ]);
+
+      const matches = searchOutput(run, /error/g);
+
+      expect(matches.map((match) => match.lineNumber)).toEqual([1, 2]);
+    });
+  });
+});
+
+describe("Stack Utilities", () => {
+  describe("parseStackFrames", () => {
+    it("should parse and classify V8 stack frames", () => {
+      const stack = [
+        "Error: expect(received).toBe(expected)",
+        "",
+        "Expected: 1",
+        "    at LoginPage.submit (/repo/tests/pages/login.ts:12:9)",
+        "    at async /repo/tests/login.spec.ts:8:3",
+        "    at Object.wrap (/repo/node_modules/some-lib/index.js:1:100)",
+        "    at ProgressController.run (/repo/node_modules/playwright-core/lib/server/progress.js:80:22)",
+        "    at /repo/node_modules/@playwright/test/lib/worker.js:5:1",
+        "    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+        "    at file:///C:/repo/tests/win.spec.ts:3:4",
+      ].join("\n");
+
+      const frames = parseStackFrames(stack);
+
+      expect(frames).toHaveLength(7);
+      expect(frames[0]).toEqual({
+        file: "/repo/tests/pages/login.ts",
+        line: 12,
+        column: 9,
+        function: "LoginPage.submit",
+        kind: "test",
+      });
+      expect(frames[1]).toMatchObject({
+        file: "/repo/tests/login.spec.ts",
+        function: undefined,
+        kind: "test",
+      });
+      expect(frames.map((frame) => frame.kind)).toEqual([
+        "test",
+        "test",
+        "node_modules",
+        "playwright",
+        "playwright",
+        "internal",
+        "test",
+      ]);
+      expect(frames[6]!.file).toBe("C:/repo/tests/win.spec.ts");
+    });
+
+    it("should return no frames for missing or frameless stacks", () => {
+      expect(parseStackFrames(undefined)).toEqual([]);
+      expect(parseStackFrames("Error: boom")).toEqual([]);
+    });
+  });
+});
+
+describe("ANSI Utilities", () => {
+  it("should strip color and style escape codes", () => {
+    const colored =
+      "Error: \u001b[31mTimed out\u001b[39m \u001b[2mexpect(\u001b[22m\u001b[31mlocator\u001b[39m\u001b[2m)\u001b[22m";
+
+    expect(stripAnsi(colored)).toBe("Error: Timed out expect(locator)");
+    expect(hasAnsi(colored)).toBe(true);
+  });
+
+  it("should leave plain text untouched", () => {
+    expect(stripAnsi("Expected: 1\nReceived: 2")).toBe("Expected: 1\nReceived: 2");
+    expect(hasAnsi("plain")).toBe(false);
+  });
+});
+
+describe("Assertion Utilities", () => {
+  it("should parse locator assertions with typed expected and received values", () => {
+    const message = [
+      "Error: expect(locator).not.toHaveText(expected) failed",
+      "",
+      "Locator: getByRole('heading')",
+      'Expected string: "Welcome"',
+      'Received string: "Welcome"',
+      "Timeout: 3000ms",
+      "",
+      "Call log:",
+      '  - Expect "not toHaveText" with timeout 3000ms',
+      "  - waiting for getByRole('heading')",
+      "",
+      "    at /repo/home.spec.ts:5:3",
+    ].join("\n");
+
+    expect(parseAssertionDetails(message)).toEqual({
+      matcher: "toHaveText",
+      subject: "locator",
+      negated: true,
+      locator: "getByRole('heading')",
+      expected: '"Welcome"',
+      received: '"Welcome"',
+      callLog: [
+        'Expect "not toHaveText" with timeout 3000ms',
+        "waiting for getByRole('heading')",
+      ],
+      timeout: 3000,
+    });
+  });
+
+  it("should parse generic value assertions", () => {
+    const details = parseAssertionDetails(
+      "Error: expect(received).toBe(expected) // Object.is equality\n\nExpected: 3\nReceived: 2",
+    );
+
+    expect(details).toEqual({
+      matcher: "toBe",
+      subject: "received",
+      negated: false,
+      locator: undefined,
+      expected: "3",
+      received: "2",
+      callLog: undefined,
+      timeout: undefined,
+    });
+  });
+
+  it("should return undefined for non-assertion errors", () => {
+    expect(
+      parseAssertionDetails("Error: page.goto: net::ERR_NAME_NOT_RESOLVED"),
+    ).toBeUndefined();
+  });
+});
+
 describe("Helper Utilities", () => {
   const createTest = (overrides: Partial<NormalizedTest>): NormalizedTest => ({
     id: "test-1",
@@ -549,6 +934,26 @@ describe("Helper Utilities", () => {
       expect(hasFailures(noFailures)).toBe(false);
     });
 
+    it("should treat report-level errors as failures", () => {
+      const brokenRun = {
+        ...createTestRun([]),
+        errors: [{ message: "Error: globalSetup failed", file: "global-setup.ts" }],
+      };
+      const passedWithErrors = {
+        ...createTestRun([createTest({ id: "1", status: "passed" })]),
+        errors: [{ message: "Error: worker process exited unexpectedly" }],
+      };
+      const clean = { ...createTestRun([createTest({ id: "1" })]), errors: [] };
+
+      expect(hasRunErrors(brokenRun)).toBe(true);
+      expect(hasFailures(brokenRun)).toBe(true);
+      expect(allTestsPassed(brokenRun)).toBe(false);
+      expect(hasFailures(passedWithErrors)).toBe(true);
+      expect(allTestsPassed(passedWithErrors)).toBe(false);
+      expect(hasRunErrors(clean)).toBe(false);
+      expect(allTestsPassed(clean)).toBe(true);
+    });
+
     it("should check for flaky tests", () => {
       const withFlaky = createTestRun([
         createTest({ id: "1", status: "passed" }),